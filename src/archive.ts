@@ -0,0 +1,174 @@
+import * as zlib from 'zlib'
+
+const TAR_BLOCK_SIZE = 512
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50
+
+/**
+ * Check whether this Node.js version can decompress zstd
+ */
+export function zstdSupported(): boolean {
+  return 'zstdDecompressSync' in zlib
+}
+
+/**
+ * Extract a single file from an archive held in memory
+ * Supports the formats mise is released in: .tar.gz, .tar.zst and .zip
+ */
+export function extractFile(
+  archive: Buffer,
+  ext: string,
+  member: string
+): Buffer {
+  switch (ext) {
+    case '.tar.gz':
+      return extractFromTar(zlib.gunzipSync(archive), member)
+    case '.tar.zst':
+      return extractFromTar(zstdDecompress(archive), member)
+    case '.zip':
+      return extractFromZip(archive, member)
+    default:
+      throw new Error(`Unsupported archive format ${ext}`)
+  }
+}
+
+/**
+ * Decompress zstd data with Node.js' built-in zstd support
+ */
+function zstdDecompress(data: Buffer): Buffer {
+  if (!zstdSupported()) {
+    throw new Error(`zstd is not supported by Node.js ${process.version}`)
+  }
+  return zlib.zstdDecompressSync(data)
+}
+
+/**
+ * Find a regular file in an uncompressed tar archive
+ */
+function extractFromTar(tar: Buffer, member: string): Buffer {
+  let offset = 0
+
+  while (offset + TAR_BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + TAR_BLOCK_SIZE)
+
+    // Two zero blocks mark the end of the archive
+    if (header.every(byte => byte === 0)) break
+
+    const name = readTarString(header, 0, 100)
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8)
+    const type = header[156]
+    const isUstar = readTarString(header, 257, 6) === 'ustar'
+    const prefix = isUstar ? readTarString(header, 345, 155) : ''
+    const fullName = prefix ? `${prefix}/${name}` : name
+
+    if (Number.isNaN(size)) {
+      throw new Error(`Invalid tar header for ${fullName}`)
+    }
+
+    const start = offset + TAR_BLOCK_SIZE
+    // '0' and NUL are both regular files
+    const isFile = type === 0x30 || type === 0
+    if (isFile && normalizeMember(fullName) === member) {
+      if (start + size > tar.length) {
+        throw new Error(`Truncated tar archive, ${member} is incomplete`)
+      }
+      return Buffer.from(tar.subarray(start, start + size))
+    }
+
+    offset = start + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE
+  }
+
+  throw new Error(`${member} not found in archive`)
+}
+
+/**
+ * Read a NUL terminated string field from a tar header
+ */
+function readTarString(header: Buffer, start: number, length: number): string {
+  const field = header.subarray(start, start + length)
+  const end = field.indexOf(0)
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf8')
+}
+
+/**
+ * Find a file in a zip archive through its central directory
+ */
+function extractFromZip(zip: Buffer, member: string): Buffer {
+  const eocd = findZipEndOfCentralDirectory(zip)
+  const entries = zip.readUInt16LE(eocd + 10)
+  let offset = zip.readUInt32LE(eocd + 16)
+
+  for (let i = 0; i < entries; i++) {
+    if (zip.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid zip central directory')
+    }
+
+    const method = zip.readUInt16LE(offset + 10)
+    const compressedSize = zip.readUInt32LE(offset + 20)
+    const nameLength = zip.readUInt16LE(offset + 28)
+    const extraLength = zip.readUInt16LE(offset + 30)
+    const commentLength = zip.readUInt16LE(offset + 32)
+    const localOffset = zip.readUInt32LE(offset + 42)
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    if (normalizeMember(name) === member) {
+      return readZipEntry(zip, localOffset, compressedSize, method)
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  throw new Error(`${member} not found in archive`)
+}
+
+/**
+ * Locate the end of central directory record, which is followed by at most
+ * a 64KiB comment
+ */
+function findZipEndOfCentralDirectory(zip: Buffer): number {
+  const min = Math.max(0, zip.length - 22 - 0xffff)
+
+  for (let offset = zip.length - 22; offset >= min; offset--) {
+    if (zip.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      return offset
+    }
+  }
+
+  throw new Error('Not a zip archive')
+}
+
+/**
+ * Read and decompress a zip entry from its local file header
+ */
+function readZipEntry(
+  zip: Buffer,
+  offset: number,
+  compressedSize: number,
+  method: number
+): Buffer {
+  if (zip.readUInt32LE(offset) !== ZIP_LOCAL_FILE_HEADER) {
+    throw new Error('Invalid zip local file header')
+  }
+
+  const nameLength = zip.readUInt16LE(offset + 26)
+  const extraLength = zip.readUInt16LE(offset + 28)
+  const start = offset + 30 + nameLength + extraLength
+  const data = zip.subarray(start, start + compressedSize)
+
+  switch (method) {
+    case 0:
+      return Buffer.from(data)
+    case 8:
+      return zlib.inflateRawSync(data)
+    default:
+      throw new Error(`Unsupported zip compression method ${method}`)
+  }
+}
+
+/**
+ * Normalize an archive member path, e.g. ./mise/bin/mise -> mise/bin/mise
+ */
+function normalizeMember(name: string): string {
+  return name.replace(/\\/g, '/').replace(/^\.\//, '')
+}
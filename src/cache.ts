@@ -1,28 +1,66 @@
 import * as cache from '@actions/cache'
 import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as crypto from 'crypto'
 import * as fs from 'fs'
 import * as path from 'path'
-import { Tool, ToolCacheInfo, CacheResult } from './types'
-import { miseDir, getSystemInfo } from './utils'
-import { generateToolHash } from './tools'
+import {
+  CacheHit,
+  CacheManifest,
+  Tool,
+  ToolCacheInfo,
+  CacheResult,
+  CacheSummary,
+  DirectoryCacheInfo,
+  InstallMetadata,
+  Plugin,
+  PluginCacheInfo,
+  ToolInstall
+} from './types'
+import { miseDir, miseBinPath, miseCacheDir, getSystemInfo } from './utils'
+import { generateToolHash, getToolCacheKeyComponents } from './tools'
+import { formatSeconds } from './timings'
+
+// Written into each installed tool version, so it is cached with the tool
+const INSTALL_METADATA_FILE = '.mise-action.json'
+
+// Lists the tools and plugins later steps installed, see CacheManifest
+const MANIFEST_FILE = '.mise-action-manifest.json'
 
 /**
- * Restore both global mise cache and individual tool caches
+ * Restore the global mise binary cache for a resolved mise version
  */
-export async function restoreAllCaches(tools: Tool[]): Promise<CacheResult> {
-  core.startGroup('Restoring caches')
+export async function restoreMiseCache(version: string): Promise<CacheHit> {
+  core.startGroup('Restoring mise cache')
 
   try {
     const systemInfo = await getSystemInfo()
-    const version = core.getInput('version') || 'latest'
     const keyPrefix = core.getInput('cache_key_prefix') || 'mise-v1'
 
-    // Restore global mise cache
-    const globalCacheHit = await restoreGlobalMiseCache(
-      systemInfo.target,
-      version,
-      keyPrefix
-    )
+    return await restoreGlobalMiseCache(systemInfo.target, version, keyPrefix)
+  } catch (error) {
+    core.warning(`Failed to restore mise cache: ${error}`)
+    return 'miss'
+  } finally {
+    core.endGroup()
+  }
+}
+
+/**
+ * Restore the caches of all tools, plugins and the mise cache directory
+ * Runs once mise is set up, so tool versions can be resolved first and the
+ * global mise cache result comes from restoreMiseCache
+ */
+export async function restoreAllCaches(
+  tools: Tool[],
+  globalCacheHit: boolean,
+  plugins: Plugin[] = []
+): Promise<CacheResult> {
+  core.startGroup('Restoring caches')
+
+  try {
+    const systemInfo = await getSystemInfo()
+    const keyPrefix = core.getInput('cache_key_prefix') || 'mise-v1'
 
     // Restore individual tool caches
     const toolCacheResults = await restoreToolCaches(
@@ -36,23 +74,62 @@ export async function restoreAllCaches(tools: Tool[]): Promise<CacheResult> {
       .filter(t => !t.isRestored)
       .map(t => t.tool)
 
+    const pluginCacheResults = await restorePluginCaches(
+      plugins,
+      systemInfo.target,
+      keyPrefix
+    )
+    const miseCacheResult = await restoreMiseCacheDir(
+      tools,
+      systemInfo.target,
+      keyPrefix
+    )
+
+    // Tools and plugins later steps installed in earlier runs are restored
+    // too, but not installed when missing since nothing asks for them
+    const restoredManifest = await restoreCacheManifest(
+      systemInfo.target,
+      keyPrefix
+    )
+    const installPaths = new Set(tools.map(getToolInstallPath))
+    const pluginNames = new Set(plugins.map(plugin => plugin.name))
+    const manifest = restoredManifest && {
+      tools: restoredManifest.tools.filter(
+        tool => !installPaths.has(getToolInstallPath(tool))
+      ),
+      plugins: restoredManifest.plugins.filter(
+        plugin => !pluginNames.has(plugin.name)
+      )
+    }
+    const extraToolCacheResults = await restoreToolCaches(
+      manifest?.tools ?? [],
+      systemInfo.target,
+      keyPrefix
+    )
+    const extraPluginCacheResults = await restorePluginCaches(
+      manifest?.plugins ?? [],
+      systemInfo.target,
+      keyPrefix
+    )
+
     const result: CacheResult = {
       globalCacheHit,
-      toolCacheResults,
+      toolCacheResults: [...toolCacheResults, ...extraToolCacheResults],
       totalTools: tools.length,
       cachedTools,
-      missingTools
+      missingTools,
+      pluginCacheResults: [...pluginCacheResults, ...extraPluginCacheResults],
+      miseCacheResult,
+      manifest
     }
 
-    // Set outputs for GitHub Actions
-    setOutputs(result)
     logCacheResults(result)
 
     return result
   } catch (error) {
     core.warning(`Failed to restore caches: ${error}`)
     return {
-      globalCacheHit: false,
+      globalCacheHit,
       toolCacheResults: tools.map(tool => ({
         tool,
         cacheKey: '',
@@ -61,7 +138,10 @@ export async function restoreAllCaches(tools: Tool[]): Promise<CacheResult> {
       })),
       totalTools: tools.length,
       cachedTools: 0,
-      missingTools: tools
+      missingTools: tools,
+      pluginCacheResults: [],
+      miseCacheResult: null,
+      manifest: null
     }
   } finally {
     core.endGroup()
@@ -70,31 +150,30 @@ export async function restoreAllCaches(tools: Tool[]): Promise<CacheResult> {
 
 /**
  * Restore global mise binary cache
+ * There is no fallback to other mise versions, an outdated binary would only
+ * be downloaded to be replaced
  */
 async function restoreGlobalMiseCache(
   target: string,
   version: string,
   keyPrefix: string
-): Promise<boolean> {
+): Promise<CacheHit> {
   const globalCacheKey = `${keyPrefix}-${target}-${version}-global`
-  const miseCachePath = path.join(miseDir(), 'bin')
-
   core.info(`Checking global mise cache: ${globalCacheKey}`)
 
   try {
-    const cacheKey = await cache.restoreCache([miseCachePath], globalCacheKey)
-    const hit = Boolean(cacheKey)
+    const cacheKey = await cache.restoreCache([miseBinPath()], globalCacheKey)
 
-    if (hit) {
+    if (cacheKey) {
       core.info(`✓ Global mise cache restored: ${cacheKey}`)
-    } else {
-      core.info(`✗ Global mise cache not found`)
+      return 'exact'
     }
 
-    return hit
+    core.info(`✗ Global mise cache not found`)
+    return 'miss'
   } catch (error) {
     core.warning(`Failed to restore global mise cache: ${error}`)
-    return false
+    return 'miss'
   }
 }
 
@@ -108,23 +187,23 @@ async function restoreToolCaches(
 ): Promise<ToolCacheInfo[]> {
   const results = await Promise.all(
     tools.map(async tool => {
-      const toolHash = generateToolHash(tool)
-      const toolCacheKey = `${keyPrefix}-${target}-tool-${toolHash}`
-      const toolCachePath = path.join(
-        miseDir(),
-        'installs',
-        tool.name,
-        tool.version
-      )
+      const toolCacheKey = getToolCacheKey(tool, target, keyPrefix)
+      const toolCachePath = getToolInstallPath(tool)
 
       core.info(`Checking tool cache: ${tool.name}@${tool.version}`)
+      core.info(
+        `  Key components: ${JSON.stringify(getToolCacheKeyComponents(tool, target))}`
+      )
 
+      const start = Date.now()
       try {
         const cacheKey = await cache.restoreCache([toolCachePath], toolCacheKey)
         const isRestored = Boolean(cacheKey)
+        const restoreDurationMs = Date.now() - start
+        const duration = formatSeconds(restoreDurationMs)
 
         if (isRestored) {
-          core.info(`  ✓ Restored from cache: ${cacheKey}`)
+          core.info(`  ✓ Restored from cache: ${cacheKey} (${duration})`)
         } else {
           core.info(`  ✗ Not found in cache`)
         }
@@ -133,7 +212,11 @@ async function restoreToolCaches(
           tool,
           cacheKey: toolCacheKey,
           cachePath: toolCachePath,
-          isRestored
+          isRestored,
+          restoreDurationMs,
+          previousInstallDurationMs: isRestored
+            ? await readInstallDuration(toolCachePath)
+            : undefined
         }
       } catch (error) {
         core.warning(`Failed to restore cache for ${tool.name}: ${error}`)
@@ -141,7 +224,8 @@ async function restoreToolCaches(
           tool,
           cacheKey: toolCacheKey,
           cachePath: toolCachePath,
-          isRestored: false
+          isRestored: false,
+          restoreDurationMs: Date.now() - start
         }
       }
     })
@@ -151,12 +235,183 @@ async function restoreToolCaches(
 }
 
 /**
- * Save caches for newly installed tools and global mise
+ * Restore the plugin of each [plugins] entry, or cache manifest entry
+ * Plugins are keyed by repository and ref, and only restored on an exact hit
+ * since mise never updates an installed plugin
  */
-export async function saveAllCaches(
-  cacheResult: CacheResult,
-  installedTools: Tool[]
+async function restorePluginCaches(
+  plugins: Plugin[],
+  target: string,
+  keyPrefix: string
+): Promise<PluginCacheInfo[]> {
+  return Promise.all(
+    plugins.map(async plugin => {
+      const cacheKey = getPluginCacheKey(plugin, target, keyPrefix)
+      const cachePath = path.join(miseDir(), 'plugins', plugin.name)
+
+      core.info(
+        `Checking plugin cache: ${plugin.name} (${plugin.repository}#${plugin.ref || 'default branch'})`
+      )
+
+      try {
+        const restoredKey = await cache.restoreCache([cachePath], cacheKey)
+        core.info(
+          restoredKey
+            ? `  ✓ Restored from cache: ${restoredKey}`
+            : `  ✗ Not found in cache`
+        )
+        return {
+          plugin,
+          cacheKey,
+          cachePath,
+          hit: restoredKey ? 'exact' : 'miss'
+        }
+      } catch (error) {
+        core.warning(
+          `Failed to restore cache for plugin ${plugin.name}: ${error}`
+        )
+        return { plugin, cacheKey, cachePath, hit: 'miss' }
+      }
+    })
+  )
+}
+
+/**
+ * Restore the mise cache directory, keyed by the tools being installed and
+ * falling back to the cache of any other set of tools
+ */
+async function restoreMiseCacheDir(
+  tools: Tool[],
+  target: string,
+  keyPrefix: string
+): Promise<DirectoryCacheInfo> {
+  const specs = tools.map(tool => `${tool.name}@${tool.version}`).sort()
+  const toolsHash = crypto
+    .createHash('sha256')
+    .update(specs.join('\n'))
+    .digest('hex')
+  const cacheKey = `${keyPrefix}-${target}-cache-${toolsHash.slice(0, 16)}`
+  const cachePath = miseCacheDir()
+
+  core.info(`Checking mise cache directory: ${cacheKey}`)
+
+  try {
+    const restoredKey = await cache.restoreCache([cachePath], cacheKey, [
+      `${keyPrefix}-${target}-cache-`
+    ])
+
+    if (restoredKey === cacheKey) {
+      core.info(`  ✓ Restored from cache: ${restoredKey}`)
+      return { cacheKey, cachePath, hit: 'exact' }
+    }
+    if (restoredKey) {
+      core.info(`  ~ Partially restored from cache: ${restoredKey}`)
+      return { cacheKey, cachePath, hit: 'partial' }
+    }
+
+    core.info(`  ✗ Not found in cache`)
+    return { cacheKey, cachePath, hit: 'miss' }
+  } catch (error) {
+    core.warning(`Failed to restore mise cache directory: ${error}`)
+    return { cacheKey, cachePath, hit: 'miss' }
+  }
+}
+
+/**
+ * Restore the most recently saved cache manifest
+ */
+async function restoreCacheManifest(
+  target: string,
+  keyPrefix: string
+): Promise<CacheManifest | null> {
+  const manifestPath = path.join(miseDir(), MANIFEST_FILE)
+
+  try {
+    const restoredKey = await cache.restoreCache(
+      [manifestPath],
+      `${keyPrefix}-${target}-manifest`,
+      [`${keyPrefix}-${target}-manifest-`]
+    )
+    if (!restoredKey) return null
+
+    const { tools = [], plugins = [] }: Partial<CacheManifest> = JSON.parse(
+      await fs.promises.readFile(manifestPath, 'utf8')
+    )
+    core.info(
+      `Restored cache manifest listing ${tools.length} tools and ${plugins.length} plugins installed by later steps: ${restoredKey}`
+    )
+    return { tools, plugins }
+  } catch (error) {
+    core.warning(`Failed to restore cache manifest: ${error}`)
+    return null
+  }
+}
+
+/**
+ * Get the cache key of a plugin, from its repository and ref
+ */
+function getPluginCacheKey(
+  plugin: Plugin,
+  target: string,
+  keyPrefix: string
+): string {
+  const source = `${plugin.repository}#${plugin.ref || ''}`
+  const digest = crypto.createHash('sha256').update(source).digest('hex')
+
+  return `${keyPrefix}-${target}-plugin-${plugin.name}-${digest.slice(0, 16)}`
+}
+
+/**
+ * Record how long each successful install took in the tool's install
+ * directory, so a later run restoring it can tell how much time it saved
+ */
+export async function writeInstallMetadata(
+  installs: ToolInstall[]
 ): Promise<void> {
+  for (const { tool, exitCode, durationMs } of installs) {
+    if (exitCode !== 0) continue
+
+    const metadata: InstallMetadata = { installDurationMs: durationMs }
+    const metadataPath = path.join(
+      getToolInstallPath(tool),
+      INSTALL_METADATA_FILE
+    )
+    try {
+      await fs.promises.writeFile(metadataPath, JSON.stringify(metadata))
+    } catch (error) {
+      core.warning(
+        `Failed to write install metadata for ${tool.name}@${tool.version}: ${error}`
+      )
+    }
+  }
+}
+
+/**
+ * Read how long a restored tool took to install, if its cache recorded it
+ */
+async function readInstallDuration(
+  cachePath: string
+): Promise<number | undefined> {
+  try {
+    const metadata: InstallMetadata = JSON.parse(
+      await fs.promises.readFile(
+        path.join(cachePath, INSTALL_METADATA_FILE),
+        'utf8'
+      )
+    )
+    return metadata.installDurationMs
+  } catch {
+    // Caches saved before install metadata was recorded
+    return undefined
+  }
+}
+
+/**
+ * Save caches for the global mise binary and every tool version in installs/
+ * and plugin in plugins/ that was not restored from cache, including those
+ * installed by later steps
+ */
+export async function saveAllCaches(cacheResult: CacheResult): Promise<void> {
   if (!core.getBooleanInput('cache_save')) {
     core.info('Cache saving disabled, skipping...')
     return
@@ -170,18 +425,76 @@ export async function saveAllCaches(
       await saveGlobalMiseCache()
     }
 
-    // Save caches for newly installed tools
-    const savePromises = installedTools.map(async tool => {
+    const systemInfo = await getSystemInfo()
+    const keyPrefix = core.getInput('cache_key_prefix') || 'mise-v1'
+
+    // Tools found in installs/ keep the key they were restored with, tools
+    // added after restoring get a key derived from their install directory
+    const installedTools = await findInstalledTools()
+    const toolCaches = installedTools.flatMap(tool => {
+      const cachePath = getToolInstallPath(tool)
       const toolCacheInfo = cacheResult.toolCacheResults.find(
-        t => t.tool.name === tool.name && t.tool.version === tool.version
+        t => t.cachePath === cachePath
       )
 
-      if (toolCacheInfo && !toolCacheInfo.isRestored) {
-        await saveToolCache(toolCacheInfo)
-      }
+      if (toolCacheInfo) return toolCacheInfo.isRestored ? [] : [toolCacheInfo]
+
+      core.info(`Found ${tool.name}@${tool.version} installed after restoring`)
+      return [
+        {
+          tool,
+          cacheKey: getToolCacheKey(tool, systemInfo.target, keyPrefix),
+          cachePath,
+          isRestored: false
+        }
+      ]
     })
 
-    await Promise.all(savePromises)
+    // Plugins and the mise cache directory are saved unless restored with
+    // their exact key, plugins installed without a [plugins] entry get a key
+    // from their git remote and HEAD
+    const undeclaredPlugins = await findUndeclaredPlugins(
+      cacheResult.pluginCacheResults,
+      systemInfo.target,
+      keyPrefix
+    )
+    const pluginCaches = [
+      ...cacheResult.pluginCacheResults.filter(p => p.hit !== 'exact'),
+      ...undeclaredPlugins
+    ]
+    const { miseCacheResult } = cacheResult
+
+    // Tools and plugins not discovered from config, whether restored through
+    // the manifest or added after restoring, are listed for the next run
+    const extraTools = installedTools.filter(tool => {
+      const cachePath = getToolInstallPath(tool)
+      const toolCacheInfo = cacheResult.toolCacheResults.find(
+        t => t.cachePath === cachePath
+      )
+      return !toolCacheInfo || toolCacheInfo.tool.source === 'installs'
+    })
+    const extraPlugins = [
+      ...(cacheResult.manifest?.plugins ?? []).filter(plugin =>
+        fs.existsSync(path.join(miseDir(), 'plugins', plugin.name))
+      ),
+      ...undeclaredPlugins.map(p => p.plugin)
+    ]
+
+    await Promise.all([
+      saveCacheManifest(
+        { tools: extraTools, plugins: extraPlugins },
+        cacheResult.manifest,
+        systemInfo.target,
+        keyPrefix
+      ),
+      ...toolCaches.map(saveToolCache),
+      ...pluginCaches.map(async p =>
+        saveDirectoryCache(p, `plugin ${p.plugin.name}`)
+      ),
+      ...(miseCacheResult && miseCacheResult.hit !== 'exact'
+        ? [saveDirectoryCache(miseCacheResult, 'mise cache directory')]
+        : [])
+    ])
   } catch (error) {
     core.warning(`Failed to save caches: ${error}`)
   } finally {
@@ -189,15 +502,108 @@ export async function saveAllCaches(
   }
 }
 
+/**
+ * Save the cache manifest unless it is unchanged
+ * Manifests are keyed by when they were saved, so restoring picks the newest
+ */
+async function saveCacheManifest(
+  manifest: CacheManifest,
+  restored: CacheManifest | null,
+  target: string,
+  keyPrefix: string
+): Promise<void> {
+  manifest.tools.sort((a, b) =>
+    `${a.name}@${a.version}`.localeCompare(`${b.name}@${b.version}`)
+  )
+  manifest.plugins.sort((a, b) => a.name.localeCompare(b.name))
+  const content = JSON.stringify(manifest)
+  if (content === JSON.stringify(restored ?? { tools: [], plugins: [] })) {
+    core.info('Cache manifest is unchanged, skipping')
+    return
+  }
+
+  const manifestPath = path.join(miseDir(), MANIFEST_FILE)
+  const cacheKey = `${keyPrefix}-${target}-manifest-${Date.now()}`
+  try {
+    await fs.promises.writeFile(manifestPath, content)
+    await cache.saveCache([manifestPath], cacheKey)
+    core.info(`✓ Saved cache manifest: ${cacheKey}`)
+  } catch (error) {
+    core.warning(`Failed to save cache manifest: ${error}`)
+  }
+}
+
+/**
+ * List the tool versions in installs/, skipping the symlinks mise creates
+ * for version prefixes such as installs/node/20 -> 20.11.1
+ */
+async function findInstalledTools(): Promise<Tool[]> {
+  const installsDir = path.join(miseDir(), 'installs')
+  if (!fs.existsSync(installsDir)) return []
+
+  const tools: Tool[] = []
+  const toolDirs = await fs.promises.readdir(installsDir, {
+    withFileTypes: true
+  })
+
+  for (const toolDir of toolDirs) {
+    if (!toolDir.isDirectory() || toolDir.name.startsWith('.')) continue
+
+    const versionDirs = await fs.promises.readdir(
+      path.join(installsDir, toolDir.name),
+      { withFileTypes: true }
+    )
+    for (const versionDir of versionDirs) {
+      if (!versionDir.isDirectory() || versionDir.name.startsWith('.')) continue
+      tools.push({
+        name: toolDir.name,
+        version: versionDir.name,
+        source: 'installs'
+      })
+    }
+  }
+
+  return tools
+}
+
+/**
+ * Get the cache key of a tool
+ */
+function getToolCacheKey(
+  tool: Tool,
+  target: string,
+  keyPrefix: string
+): string {
+  return `${keyPrefix}-${target}-tool-${generateToolHash(tool, target)}`
+}
+
+/**
+ * Get the directory mise installs a tool version into, where backend tools
+ * such as npm:prettier live in installs/npm-prettier
+ */
+function getToolInstallPath(tool: Tool): string {
+  return path.join(
+    miseDir(),
+    'installs',
+    tool.name.replace(/[:/]/g, '-'),
+    tool.version
+  )
+}
+
 /**
  * Save global mise binary cache
  */
 async function saveGlobalMiseCache(): Promise<void> {
+  const version = core.getState('MISE_VERSION')
+  if (!version) {
+    core.info('mise version was not resolved, skipping global mise cache')
+    return
+  }
+
   const systemInfo = await getSystemInfo()
-  const version = core.getInput('version') || 'latest'
   const keyPrefix = core.getInput('cache_key_prefix') || 'mise-v1'
   const globalCacheKey = `${keyPrefix}-${systemInfo.target}-${version}-global`
-  const miseCachePath = path.join(miseDir(), 'bin')
+  const miseCachePath = miseBinPath()
 
   if (!fs.existsSync(miseCachePath)) {
     core.warning(`Global mise path does not exist: ${miseCachePath}`)
@@ -242,45 +648,164 @@ async function saveToolCache(toolCacheInfo: ToolCacheInfo): Promise<void> {
 }
 
 /**
- * Set GitHub Actions outputs based on cache results
+ * List the plugins in plugins/ that were not declared in [plugins], e.g.
+ * installed by `mise plugin install` or for an asdf tool
  */
-function setOutputs(result: CacheResult): void {
-  const { totalTools, cachedTools, globalCacheHit } = result
-
-  // Traditional cache-hit output (true only if ALL tools were cached)
-  const fullCacheHit = globalCacheHit && cachedTools === totalTools
-  core.setOutput('cache-hit', fullCacheHit)
-
-  // New enhanced outputs
-  core.setOutput('global-cache-hit', globalCacheHit)
-  core.setOutput('partial-cache-hit', cachedTools > 0)
-  core.setOutput('tools-cache-hit-ratio', `${cachedTools}/${totalTools}`)
-  core.setOutput('cached-tools-count', cachedTools)
-  core.setOutput('missing-tools-count', totalTools - cachedTools)
+async function findUndeclaredPlugins(
+  declared: PluginCacheInfo[],
+  target: string,
+  keyPrefix: string
+): Promise<PluginCacheInfo[]> {
+  const pluginsDir = path.join(miseDir(), 'plugins')
+  if (!fs.existsSync(pluginsDir)) return []
+
+  const plugins: PluginCacheInfo[] = []
+  const pluginDirs = await fs.promises.readdir(pluginsDir, {
+    withFileTypes: true
+  })
+
+  for (const pluginDir of pluginDirs) {
+    if (!pluginDir.isDirectory() || pluginDir.name.startsWith('.')) continue
+
+    const cachePath = path.join(pluginsDir, pluginDir.name)
+    if (declared.some(p => p.cachePath === cachePath)) continue
+
+    const plugin = await readPluginRepository(pluginDir.name, cachePath)
+    if (!plugin) continue
+
+    core.info(
+      `Found plugin ${plugin.name} installed after restoring (${plugin.repository}#${plugin.ref})`
+    )
+    plugins.push({
+      plugin,
+      cacheKey: getPluginCacheKey(plugin, target, keyPrefix),
+      cachePath,
+      hit: 'miss'
+    })
+  }
+
+  return plugins
+}
+
+/**
+ * Read the repository and checked out commit of an installed plugin
+ */
+async function readPluginRepository(
+  name: string,
+  pluginPath: string
+): Promise<Plugin | undefined> {
+  const git = async (...args: string[]): Promise<string | undefined> => {
+    const { exitCode, stdout } = await exec.getExecOutput(
+      'git',
+      ['-C', pluginPath, ...args],
+      { silent: true, ignoreReturnCode: true }
+    )
+    return exitCode === 0 ? stdout.trim() || undefined : undefined
+  }
+
+  try {
+    const repository = await git('remote', 'get-url', 'origin')
+    const ref = await git('rev-parse', 'HEAD')
+    if (repository && ref) return { name, repository, ref }
+  } catch (error) {
+    core.debug(`Failed to run git in ${pluginPath}: ${error}`)
+  }
+
+  core.info(`Skipping cache of plugin ${name}, it is not a git checkout`)
+  return undefined
+}
+
+/**
+ * Save the cache of a plugin or the mise cache directory
+ */
+async function saveDirectoryCache(
+  info: DirectoryCacheInfo,
+  description: string
+): Promise<void> {
+  const { cacheKey, cachePath } = info
+
+  if (!fs.existsSync(cachePath)) {
+    core.info(`Skipping cache of ${description}, ${cachePath} does not exist`)
+    return
+  }
+
+  try {
+    const cacheId = await cache.saveCache([cachePath], cacheKey)
+    if (cacheId !== -1) {
+      core.info(`✓ Saved cache of ${description}: ${cacheKey}`)
+    } else {
+      core.info(`Cache of ${description} already exists: ${cacheKey}`)
+    }
+  } catch (error) {
+    core.warning(`Failed to save cache of ${description}: ${error}`)
+  }
+}
+
+/**
+ * Summarize cache results for the log and the job summary, so they always
+ * agree
+ */
+export function summarizeCacheResult(result: CacheResult): CacheSummary {
+  const { totalTools, cachedTools, globalCacheHit, missingTools } = result
+
+  return {
+    globalCacheHit,
+    totalTools,
+    cachedTools,
+    restoredTools: result.toolCacheResults
+      .filter(t => t.isRestored)
+      .map(t => t.tool),
+    missingTools,
+    totalPlugins: result.pluginCacheResults.length,
+    restoredPlugins: result.pluginCacheResults.filter(p => p.hit === 'exact')
+      .length,
+    miseCacheHit: result.miseCacheResult?.hit ?? null,
+    efficiency: totalTools > 0 ? (cachedTools / totalTools) * 100 : 0
+  }
+}
+
+/**
+ * Describe a cache hit for the log and the job summary
+ */
+export function formatCacheHit(hit: CacheHit): string {
+  return { exact: '✓ Hit', partial: '~ Partial hit', miss: '✗ Miss' }[hit]
 }
 
 /**
  * Log detailed cache results
  */
 function logCacheResults(result: CacheResult): void {
-  const { totalTools, cachedTools, globalCacheHit, missingTools } = result
+  const summary = summarizeCacheResult(result)
 
   core.info(`\n📊 Cache Results Summary:`)
-  core.info(`  Global mise cache: ${globalCacheHit ? '✓ Hit' : '✗ Miss'}`)
-  core.info(`  Tool caches: ${cachedTools}/${totalTools} restored`)
+  core.info(
+    `  Global mise cache: ${summary.globalCacheHit ? '✓ Hit' : '✗ Miss'}`
+  )
+  core.info(
+    `  Tool caches: ${summary.cachedTools}/${summary.totalTools} restored`
+  )
+  if (summary.totalPlugins > 0) {
+    core.info(
+      `  Plugin caches: ${summary.restoredPlugins}/${summary.totalPlugins} restored`
+    )
+  }
+  if (summary.miseCacheHit) {
+    core.info(`  mise cache directory: ${formatCacheHit(summary.miseCacheHit)}`)
+  }
 
-  if (cachedTools > 0) {
+  if (summary.restoredTools.length > 0) {
     core.info(`\n✅ Restored from cache:`)
-    result.toolCacheResults
-      .filter(t => t.isRestored)
-      .forEach(t => core.info(`  - ${t.tool.name}@${t.tool.version}`))
+    summary.restoredTools.forEach(tool =>
+      core.info(`  - ${tool.name}@${tool.version}`)
+    )
   }
 
-  if (missingTools.length > 0) {
+  if (summary.missingTools.length > 0) {
     core.info(`\n⚠️  Need to install:`)
-    missingTools.forEach(tool => core.info(`  - ${tool.name}@${tool.version}`))
+    summary.missingTools.forEach(tool =>
+      core.info(`  - ${tool.name}@${tool.version}`)
+    )
   }
 
-  const cacheEfficiency = totalTools > 0 ? (cachedTools / totalTools) * 100 : 0
-  core.info(`\n🎯 Cache efficiency: ${cacheEfficiency.toFixed(1)}%`)
+  core.info(`\n🎯 Cache efficiency: ${summary.efficiency.toFixed(1)}%`)
 }
@@ -1,4 +1,10 @@
+import * as core from '@actions/core'
 import { run } from './main'
+import { post } from './post'
 
-// Execute the main function
-run()
+// Execute the main function, or save caches when running as the post step
+if (core.getState('isPost')) {
+  post()
+} else {
+  run()
+}
@@ -0,0 +1,147 @@
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import { parse as parseToml } from 'smol-toml'
+import { Tool, ToolLock } from './types'
+import { getSystemInfo } from './utils'
+
+interface LockEntry {
+  version: string
+  lock: ToolLock
+}
+
+/**
+ * Get the lockfile mise writes for a config file, e.g. mise.toml -> mise.lock
+ */
+export function lockfilePath(configPath: string): string {
+  return configPath.replace(/\.toml$/, '.lock')
+}
+
+/**
+ * Replace the versions of tools from a config file with the exact versions
+ * recorded in the lockfile next to it
+ * Fails when the locked input is set and a tool is missing from the lockfile
+ */
+export async function applyLockfile(
+  tools: Tool[],
+  configPath: string
+): Promise<Tool[]> {
+  const lockPath = lockfilePath(configPath)
+  const entries = await readLockfile(lockPath)
+
+  const unlocked: Tool[] = []
+  const result = tools.map(tool => {
+    const entry = entries && findLockEntry(tool, entries.get(tool.name) || [])
+    if (!entry) {
+      unlocked.push(tool)
+      return tool
+    }
+
+    core.info(
+      `Locked ${tool.name}@${tool.version} to ${entry.version} from ${lockPath}`
+    )
+    return {
+      ...tool,
+      version: entry.version,
+      ...(entry.version !== tool.version && { requestedVersion: tool.version }),
+      lock: entry.lock
+    }
+  })
+
+  if (unlocked.length > 0 && core.getBooleanInput('locked')) {
+    const names = unlocked.map(tool => `${tool.name}@${tool.version}`)
+    throw new Error(
+      `Tools in ${configPath} are missing from ${lockPath}: ${names.join(', ')}. Run \`mise lock\` and commit the lockfile.`
+    )
+  }
+
+  return result
+}
+
+/**
+ * Read a mise.lock file into its entries, keyed by tool name
+ */
+async function readLockfile(
+  lockPath: string
+): Promise<Map<string, LockEntry[]> | null> {
+  if (!fs.existsSync(lockPath)) return null
+
+  try {
+    const content = await fs.promises.readFile(lockPath, 'utf8')
+    const lockfile = parseToml(content)
+    const entries = new Map<string, LockEntry[]>()
+
+    if (!isTable(lockfile.tools)) return entries
+
+    const { target } = await getSystemInfo()
+    for (const [name, value] of Object.entries(lockfile.tools)) {
+      const values: unknown[] = Array.isArray(value) ? value : [value]
+      const tables = values.filter(isTable)
+      entries.set(
+        name,
+        tables
+          .filter(table => typeof table.version === 'string')
+          .map(table => ({
+            version: table.version as string,
+            lock: parseToolLock(table, target)
+          }))
+      )
+    }
+
+    return entries
+  } catch (error) {
+    core.warning(`Failed to parse ${lockPath}: ${error}`)
+    return null
+  }
+}
+
+/**
+ * Extract the backend and the checksum or URL for this platform from a
+ * lockfile entry
+ * Supports both [tools.<name>.platforms.<platform>] tables and the older
+ * [tools.<name>.checksums] table
+ */
+function parseToolLock(
+  table: Record<string, unknown>,
+  target: string
+): ToolLock {
+  const lock: ToolLock = {}
+  if (typeof table.backend === 'string') lock.backend = table.backend
+
+  const { platforms, checksums } = table
+  if (isTable(platforms)) {
+    const platform =
+      platforms[target] ?? platforms[target.replace(/-musl$/, '')]
+    if (isTable(platform)) {
+      if (typeof platform.checksum === 'string')
+        lock.checksum = platform.checksum
+      if (typeof platform.url === 'string') lock.url = platform.url
+    }
+  } else if (isTable(checksums)) {
+    const files = Object.keys(checksums).sort()
+    if (files.length > 0) {
+      lock.checksum = files.map(file => `${file}=${checksums[file]}`).join(',')
+    }
+  }
+
+  return lock
+}
+
+/**
+ * Find the lockfile entry for the version a tool requests, either an exact
+ * match, a prefix match ("20" -> "20.11.1") or the only entry for aliases
+ * such as "latest" and "lts"
+ */
+function findLockEntry(tool: Tool, entries: LockEntry[]): LockEntry | null {
+  return (
+    entries.find(entry => entry.version === tool.version) ||
+    entries.find(entry => entry.version.startsWith(`${tool.version}.`)) ||
+    (entries.length === 1 && !/^\d/.test(tool.version) ? entries[0] : null)
+  )
+}
+
+/**
+ * Check whether a parsed TOML value is a table
+ */
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -1,8 +1,20 @@
 import * as core from '@actions/core'
 import * as path from 'path'
-import { MiseConfig, Tool, CacheResult } from './types'
-import { setupEnvironmentVariables } from './environment'
 import {
+  MiseConfig,
+  Tool,
+  CacheResult,
+  InstallFailure,
+  InstallFailurePolicy,
+  ToolInstall
+} from './types'
+import {
+  exportMiseEnv,
+  setupEnvironmentVariables,
+  setupMiseDir
+} from './environment'
+import {
+  findPreinstalledMise,
   setupMise,
   setupToolVersions,
   setupMiseToml,
@@ -13,51 +25,79 @@ import {
   reshimTools,
   trustCurrentDirectory
 } from './setup'
-import { restoreAllCaches, saveAllCaches } from './cache'
-import { getAllTools } from './tools'
+import {
+  restoreAllCaches,
+  restoreMiseCache,
+  writeInstallMetadata
+} from './cache'
+import {
+  cacheOutputs,
+  emitOutputs,
+  installOutputs,
+  recordOutputs,
+  resetOutputs
+} from './outputs'
+import { buildRunReport, writeRunReport } from './report'
+import { getRetryCount } from './retry'
+import { writeJobSummary } from './summary'
+import {
+  estimateTimeSaved,
+  formatPhaseTimings,
+  formatSeconds,
+  getPhaseTimings,
+  resetPhaseTimings,
+  timePhase
+} from './timings'
+import { getAllPlugins, getAllTools, resolveToolVersions } from './tools'
 import { miseDir } from './utils'
+import { readVersionFile, resolveMiseVersion } from './version'
 
 /**
  * Main entry point for the mise action
  */
 export async function run(): Promise<void> {
+  // The post step runs the same bundle, see index.ts
+  core.saveState('isPost', 'true')
+  resetOutputs()
+  resetPhaseTimings()
+
+  // Collected for the run report and job summary, which are written even
+  // when the run fails
+  const startedAt = Date.now()
+  let success = false
+  let error: string | undefined
+  let reportTools: Tool[] = []
+  let cacheResult: CacheResult | undefined
+  let installs: ToolInstall[] = []
+  let failures: InstallFailure[] = []
+
   try {
     // Parse configuration from inputs
     const config = parseConfiguration()
 
+    // Resolve the mise directory before anything reads it
+    setupMiseDir()
+
     // Set up configuration files first
     await setupConfigurationFiles(config)
 
     // Parse all tools from various sources
-    const allTools = await getAllTools()
+    const allTools = await timePhase('discovery', getAllTools)
     core.info(`Discovered ${allTools.length} tools to manage`)
 
-    // Handle caching - restore both global and per-tool caches
-    let cacheResult
-    if (core.getBooleanInput('cache')) {
-      cacheResult = await restoreAllCaches(allTools)
-    } else {
-      core.setOutput('cache-hit', false)
-      core.setOutput('global-cache-hit', false)
-      core.setOutput('partial-cache-hit', false)
-      core.setOutput('tools-cache-hit-ratio', '0/0')
-      cacheResult = {
-        globalCacheHit: false,
-        toolCacheResults: [],
-        totalTools: allTools.length,
-        cachedTools: 0,
-        missingTools: allTools
-      }
-    }
-
-    // Set up mise binary (skip if restored from global cache)
-    if (!cacheResult.globalCacheHit) {
-      await setupMise(config.version)
+    // Use a preinstalled mise when it satisfies the version, otherwise
+    // restore it from cache or download it
+    const cacheEnabled = core.getBooleanInput('cache')
+    const requestedVersion = config.version ?? (await readVersionFile())
+    const preinstalledMise = await timePhase('discovery', async () =>
+      findPreinstalledMise(requestedVersion)
+    )
+    let globalCacheHit = false
+    if (preinstalledMise) {
+      core.addPath(path.dirname(preinstalledMise))
+      recordOutputs({ miseSource: 'preinstalled' })
     } else {
-      core.info('Mise binary restored from cache, skipping installation')
-      // Still need to add to PATH
-      const miseBinDir = path.join(miseDir(), 'bin')
-      core.addPath(miseBinDir)
+      globalCacheHit = await setupMiseBinary(requestedVersion, cacheEnabled)
     }
 
     // Set up environment variables
@@ -69,6 +109,34 @@ export async function run(): Promise<void> {
     // Test mise installation
     await testMise()
 
+    // Resolve fuzzy versions so cache keys and paths use concrete versions
+    const resolvedTools = await timePhase('discovery', async () =>
+      resolveToolVersions(allTools)
+    )
+    reportTools = resolvedTools
+
+    // Handle caching - restore per-tool, plugin and mise cache directory caches
+    if (cacheEnabled) {
+      const plugins = await timePhase('discovery', getAllPlugins)
+      cacheResult = await timePhase('cacheRestore', async () =>
+        restoreAllCaches(resolvedTools, globalCacheHit, plugins)
+      )
+      // Caches are saved by the post step, once later steps have run
+      core.saveState('CACHE_RESULT', JSON.stringify(cacheResult))
+    } else {
+      cacheResult = {
+        globalCacheHit: false,
+        toolCacheResults: [],
+        totalTools: resolvedTools.length,
+        cachedTools: 0,
+        missingTools: resolvedTools,
+        pluginCacheResults: [],
+        miseCacheResult: null,
+        manifest: null
+      }
+    }
+    recordOutputs(cacheOutputs(cacheResult))
+
     // Reshim if requested (before installing new tools)
     if (core.getBooleanInput('reshim')) {
       await reshimTools()
@@ -81,7 +149,16 @@ export async function run(): Promise<void> {
         core.info(
           `Installing ${cacheResult.missingTools.length} tools that weren't found in cache`
         )
-        installedTools = await installSpecificTools(cacheResult.missingTools)
+        const { missingTools } = cacheResult
+        const installResult = await timePhase('install', async () =>
+          installSpecificTools(missingTools)
+        )
+        installedTools = installResult.installedTools
+        installs = installResult.installs
+        if (cacheEnabled) await writeInstallMetadata(installs)
+        failures = installResult.failedTools
+        recordOutputs(installOutputs(installedTools, failures))
+        handleInstallFailures(failures, config.onInstallFailure)
       } else {
         core.info('All tools were restored from cache, no installation needed')
       }
@@ -91,12 +168,7 @@ export async function run(): Promise<void> {
         core.info(
           'No tools found in configuration, falling back to install_args'
         )
-        await installAllConfiguredTools()
-      }
-
-      // Save cache for newly installed tools
-      if (core.getBooleanInput('cache') && installedTools.length > 0) {
-        await saveAllCaches(cacheResult, installedTools)
+        await timePhase('install', installAllConfiguredTools)
       }
     }
 
@@ -105,18 +177,80 @@ export async function run(): Promise<void> {
       await reshimTools()
     }
 
+    // Export [env] and tool paths for later steps
+    if (core.getBooleanInput('export_env')) {
+      await exportMiseEnv()
+    }
+
     // List installed tools for verification
     await listTools()
 
     // Log final summary
     logExecutionSummary(cacheResult, installedTools.length)
+
+    core.saveState('RUN_SUCCEEDED', 'true')
+    success = true
   } catch (err) {
     if (err instanceof Error) {
+      error = err.message
       core.setFailed(err.message)
     } else {
       throw err
     }
+  } finally {
+    recordOutputs({
+      retryCount: getRetryCount(),
+      phaseTimings: JSON.stringify(getPhaseTimings())
+    })
+    const report = await buildRunReport({
+      success,
+      startedAt,
+      tools: reportTools,
+      cacheResult,
+      installs
+    })
+    await writeRunReport(report)
+    await writeJobSummary({ report, cacheResult, failures, error })
+    emitOutputs()
+  }
+}
+
+/**
+ * Restore the mise binary from the global cache, or download it
+ * Returns whether the global cache had the resolved mise version
+ */
+async function setupMiseBinary(
+  requestedVersion: string | undefined,
+  cacheEnabled: boolean
+): Promise<boolean> {
+  // Resolve latest to a concrete release, so the global cache key changes
+  // when mise is released
+  const miseVersion = cacheEnabled
+    ? await timePhase('discovery', async () =>
+        resolveMiseVersion(requestedVersion)
+      )
+    : requestedVersion
+  if (cacheEnabled && miseVersion) {
+    core.saveState('MISE_VERSION', miseVersion)
+    recordOutputs({ resolvedMiseVersion: miseVersion })
   }
+
+  const globalCache =
+    cacheEnabled && miseVersion
+      ? await timePhase('cacheRestore', async () =>
+          restoreMiseCache(miseVersion)
+        )
+      : 'miss'
+
+  if (globalCache === 'exact') {
+    core.info('Mise binary restored from cache, skipping installation')
+    core.addPath(path.join(miseDir(), 'bin'))
+    recordOutputs({ miseSource: 'cache' })
+    return true
+  }
+
+  await timePhase('miseDownload', async () => setupMise(miseVersion))
+  return false
 }
 
 /**
@@ -132,10 +266,86 @@ function parseConfiguration(): MiseConfig {
     installDir: core.getInput('install_dir') || undefined,
     installArgs: core.getInput('install_args') || undefined,
     toolVersions: core.getInput('tool_versions') || undefined,
-    miseToml: core.getInput('mise_toml') || undefined
+    miseToml: core.getInput('mise_toml') || undefined,
+    urlReplacements: parseUrlReplacements(),
+    onInstallFailure: parseInstallFailurePolicy()
+  }
+}
+
+/**
+ * Parse the url_replacements input, one `from=to` pair per line
+ */
+function parseUrlReplacements(): Record<string, string> | undefined {
+  const lines = core
+    .getInput('url_replacements')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+  if (lines.length === 0) return undefined
+
+  const replacements: Record<string, string> = {}
+  for (const line of lines) {
+    const separator = line.indexOf('=')
+    if (separator <= 0) {
+      throw new Error(
+        `Invalid url_replacements line: ${line}, expected from=to`
+      )
+    }
+    replacements[line.slice(0, separator).trim()] = line
+      .slice(separator + 1)
+      .trim()
+  }
+  return replacements
+}
+
+/**
+ * Parse the on_install_failure input
+ */
+function parseInstallFailurePolicy(): InstallFailurePolicy {
+  const policy = core.getInput('on_install_failure') || 'fail'
+  if (policy !== 'fail' && policy !== 'warn' && policy !== 'ignore') {
+    throw new Error(
+      `Invalid on_install_failure value: ${policy}, expected fail, warn or ignore`
+    )
+  }
+  return policy
+}
+
+/**
+ * Apply the on_install_failure policy to failed tool installs
+ * Failed optional tools are only warned about, unless the policy is ignore
+ */
+function handleInstallFailures(
+  failures: InstallFailure[],
+  policy: InstallFailurePolicy
+): void {
+  if (failures.length === 0 || policy === 'ignore') return
+
+  const required = failures.filter(failure => !failure.tool.optional)
+  if (policy === 'fail' && required.length > 0) {
+    for (const failure of failures.filter(f => f.tool.optional)) {
+      core.warning(`Failed to install optional tool ${formatFailure(failure)}`)
+    }
+    throw new Error(
+      `Failed to install ${required.length} tools:\n${required.map(f => `  - ${formatFailure(f)}`).join('\n')}`
+    )
+  }
+
+  for (const failure of failures) {
+    core.warning(`Failed to install ${formatFailure(failure)}`)
   }
 }
 
+/**
+ * Describe a failed install with its exit code and last output lines
+ */
+function formatFailure({ tool, exitCode, output }: InstallFailure): string {
+  const status =
+    exitCode === null ? 'mise failed to run' : `exit code ${exitCode}`
+  const lines = output.map(line => `\n    ${line}`).join('')
+  return `${tool.name}@${tool.version} (${status})${lines}`
+}
+
 /**
  * Set up configuration files (.tool-versions and mise.toml)
  */
@@ -159,12 +369,9 @@ function logExecutionSummary(
     `  🚀 Cache efficiency: ${cacheResult.totalTools > 0 ? ((cacheResult.cachedTools / cacheResult.totalTools) * 100).toFixed(1) : 0}%`
   )
 
-  if (cacheResult.totalTools > 0) {
-    const timesSaved = cacheResult.cachedTools
-    if (timesSaved > 0) {
-      core.info(
-        `  ⏱️  Estimated time saved: ~${timesSaved * 30}s (assuming 30s per tool)`
-      )
-    }
+  const timeSaved = estimateTimeSaved(cacheResult)
+  if (timeSaved > 0) {
+    core.info(`  ⏱️  Estimated time saved: ~${formatSeconds(timeSaved)}`)
   }
+  core.info(`  ⏲️  Phase timings: ${formatPhaseTimings(getPhaseTimings())}`)
 }
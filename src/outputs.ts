@@ -0,0 +1,114 @@
+import * as core from '@actions/core'
+import { estimateTimeSaved } from './timings'
+import { ActionOutputs, CacheResult, InstallFailure, Tool } from './types'
+
+// The output names declared in action.yml
+const OUTPUT_NAMES: Record<keyof ActionOutputs, string> = {
+  cacheHit: 'cache-hit',
+  globalCacheHit: 'global-cache-hit',
+  partialCacheHit: 'partial-cache-hit',
+  toolsCacheHitRatio: 'tools-cache-hit-ratio',
+  cachedToolsCount: 'cached-tools-count',
+  missingToolsCount: 'missing-tools-count',
+  installedTools: 'installed-tools',
+  failedTools: 'failed-tools',
+  resolvedVersions: 'resolved-versions',
+  miseVersion: 'mise-version',
+  resolvedMiseVersion: 'resolved-mise-version',
+  misePath: 'mise-path',
+  miseSource: 'mise-source',
+  retryCount: 'retry-count',
+  reportPath: 'report-path',
+  phaseTimings: 'phase-timings',
+  estimatedTimeSavedMs: 'estimated-time-saved-ms'
+}
+
+let outputs = defaultOutputs()
+
+/**
+ * Get the outputs recorded so far
+ */
+export function getOutputs(): ActionOutputs {
+  return { ...outputs }
+}
+
+/**
+ * Record output values, they are set once the run finishes
+ */
+export function recordOutputs(values: Partial<ActionOutputs>): void {
+  outputs = { ...outputs, ...values }
+}
+
+/**
+ * Forget recorded outputs, so a run starts from the defaults
+ */
+export function resetOutputs(): void {
+  outputs = defaultOutputs()
+}
+
+/**
+ * Set every output, using the defaults for values that were never recorded
+ */
+export function emitOutputs(): void {
+  for (const key of Object.keys(OUTPUT_NAMES) as (keyof ActionOutputs)[]) {
+    core.setOutput(OUTPUT_NAMES[key], outputs[key])
+  }
+}
+
+/**
+ * Get the cache outputs for a cache restore result
+ */
+export function cacheOutputs(result: CacheResult): Partial<ActionOutputs> {
+  const { totalTools, cachedTools, globalCacheHit } = result
+
+  return {
+    // true only if the mise binary and ALL tools were cached
+    cacheHit: globalCacheHit && cachedTools === totalTools,
+    globalCacheHit,
+    partialCacheHit: cachedTools > 0,
+    toolsCacheHitRatio: `${cachedTools}/${totalTools}`,
+    cachedToolsCount: cachedTools,
+    missingToolsCount: totalTools - cachedTools,
+    estimatedTimeSavedMs: estimateTimeSaved(result)
+  }
+}
+
+/**
+ * Get the install outputs, tools are listed as name@version
+ */
+export function installOutputs(
+  installedTools: Tool[],
+  failedTools: InstallFailure[]
+): Partial<ActionOutputs> {
+  const spec = (tool: Tool): string => `${tool.name}@${tool.version}`
+
+  return {
+    installedTools: JSON.stringify(installedTools.map(spec)),
+    failedTools: JSON.stringify(failedTools.map(failure => spec(failure.tool)))
+  }
+}
+
+/**
+ * Get the outputs of a run that restored and installed nothing
+ */
+function defaultOutputs(): ActionOutputs {
+  return {
+    cacheHit: false,
+    globalCacheHit: false,
+    partialCacheHit: false,
+    toolsCacheHitRatio: '0/0',
+    cachedToolsCount: 0,
+    missingToolsCount: 0,
+    installedTools: '[]',
+    failedTools: '[]',
+    resolvedVersions: '{}',
+    miseVersion: '',
+    resolvedMiseVersion: '',
+    misePath: '',
+    miseSource: '',
+    retryCount: 0,
+    reportPath: '',
+    phaseTimings: '{}',
+    estimatedTimeSavedMs: 0
+  }
+}
@@ -0,0 +1,39 @@
+import * as core from '@actions/core'
+import { saveAllCaches } from './cache'
+import { formatSeconds, getPhaseTimings, timePhase } from './timings'
+import { CacheResult } from './types'
+
+/**
+ * Post step entry point, saves caches once the rest of the job has run so
+ * they include tools installed by later steps
+ */
+export async function post(): Promise<void> {
+  try {
+    if (!core.getBooleanInput('cache')) return
+
+    const postIf = core.getInput('post_if') || 'success'
+    if (postIf !== 'success' && postIf !== 'always') {
+      throw new Error(
+        `Invalid post_if value: ${postIf}, expected success or always`
+      )
+    }
+
+    if (postIf === 'success' && core.getState('RUN_SUCCEEDED') !== 'true') {
+      core.info('mise setup did not succeed, skipping cache save')
+      return
+    }
+
+    const state = core.getState('CACHE_RESULT')
+    if (!state) {
+      core.info('No cache restore results found, skipping cache save')
+      return
+    }
+
+    const cacheResult: CacheResult = JSON.parse(state)
+    await timePhase('cacheSave', async () => saveAllCaches(cacheResult))
+    core.info(`Cache save took ${formatSeconds(getPhaseTimings().cacheSave)}`)
+  } catch (err) {
+    // A failed cache save should not fail the job
+    core.warning(`Failed to save caches: ${err}`)
+  }
+}
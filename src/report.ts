@@ -0,0 +1,106 @@
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { getOutputs, recordOutputs } from './outputs'
+import { estimateTimeSaved, getPhaseTimings } from './timings'
+import {
+  CacheResult,
+  RunReport,
+  Tool,
+  ToolCacheInfo,
+  ToolInstall,
+  ToolReport
+} from './types'
+
+export interface RunReportInput {
+  success: boolean
+  startedAt: number
+  tools: Tool[]
+  cacheResult?: CacheResult
+  installs: ToolInstall[]
+}
+
+/**
+ * Write the JSON run report to report_path and expose its path as an output
+ * A report that cannot be written only logs a warning
+ */
+export async function writeRunReport(report: RunReport): Promise<void> {
+  const reportPath = path.resolve(
+    core.getInput('report_path') ||
+      path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'mise-report.json')
+  )
+
+  try {
+    await fs.promises.mkdir(path.dirname(reportPath), { recursive: true })
+    await fs.promises.writeFile(reportPath, JSON.stringify(report, null, 2))
+
+    core.info(`Wrote run report to ${reportPath}`)
+    recordOutputs({ reportPath })
+  } catch (error) {
+    core.warning(`Failed to write run report to ${reportPath}: ${error}`)
+  }
+}
+
+/**
+ * Combine the cache restore results and install results of every tool
+ */
+export async function buildRunReport(
+  input: RunReportInput
+): Promise<RunReport> {
+  const { cacheResult, installs } = input
+  const outputs = getOutputs()
+
+  const tools = await Promise.all(
+    input.tools.map(async (tool): Promise<ToolReport> => {
+      const isTool = (other: Tool): boolean =>
+        other.name === tool.name && other.version === tool.version
+      const cacheInfo: ToolCacheInfo = cacheResult?.toolCacheResults.find(t =>
+        isTool(t.tool)
+      ) || { tool, cacheKey: '', cachePath: '', isRestored: false }
+      const install = installs.find(i => isTool(i.tool))
+
+      return {
+        ...cacheInfo,
+        restoredBytes: cacheInfo.isRestored
+          ? await directorySize(cacheInfo.cachePath).catch(() => 0)
+          : 0,
+        installed: install?.exitCode === 0,
+        installDurationMs: install?.durationMs ?? null,
+        exitCode: install?.exitCode ?? null
+      }
+    })
+  )
+
+  return {
+    success: input.success,
+    durationMs: Date.now() - input.startedAt,
+    miseVersion: outputs.miseVersion,
+    misePath: outputs.misePath,
+    globalCacheHit: cacheResult?.globalCacheHit ?? false,
+    retryCount: outputs.retryCount,
+    phaseTimings: getPhaseTimings(),
+    estimatedTimeSavedMs: cacheResult ? estimateTimeSaved(cacheResult) : 0,
+    tools
+  }
+}
+
+/**
+ * Get the total size of the files in a directory, not following symlinks
+ */
+async function directorySize(dir: string): Promise<number> {
+  let size = 0
+
+  for (const entry of await fs.promises.readdir(dir, {
+    withFileTypes: true
+  })) {
+    const entryPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      size += await directorySize(entryPath)
+    } else if (entry.isFile()) {
+      size += (await fs.promises.stat(entryPath)).size
+    }
+  }
+
+  return size
+}
@@ -0,0 +1,97 @@
+import * as core from '@actions/core'
+
+export interface RetryOptions {
+  attempts: number
+  backoffSeconds: number
+  retryableExitCodes: number[]
+}
+
+let retryCount = 0
+
+/**
+ * Parse retry options from GitHub Actions inputs
+ */
+export function getRetryOptions(): RetryOptions {
+  const attempts = parseInt(core.getInput('retry_attempts'), 10)
+  const backoffSeconds = parseFloat(core.getInput('retry_backoff'))
+  const retryableExitCodes = (core.getInput('retry_exit_codes') || '')
+    .split(',')
+    .map(code => parseInt(code.trim(), 10))
+    .filter(code => !Number.isNaN(code))
+
+  return {
+    attempts: Number.isNaN(attempts) ? 3 : Math.max(1, attempts),
+    backoffSeconds: Number.isNaN(backoffSeconds)
+      ? 2
+      : Math.max(0, backoffSeconds),
+    retryableExitCodes
+  }
+}
+
+/**
+ * Get how many retries happened during this run
+ */
+export function getRetryCount(): number {
+  return retryCount
+}
+
+/**
+ * Run an operation, retrying with exponential backoff when it throws an
+ * error that isRetryable accepts
+ */
+export async function withRetry<T>(
+  description: string,
+  fn: () => Promise<T>,
+  isRetryable: (error: unknown) => boolean = () => true
+): Promise<T> {
+  const options = getRetryOptions()
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn()
+    } catch (error) {
+      if (attempt >= options.attempts || !isRetryable(error)) throw error
+      await backoff(description, attempt, options, `${error}`)
+    }
+  }
+}
+
+/**
+ * Run a command, retrying with exponential backoff when it exits with one of
+ * the retryable exit codes, or any non-zero exit code if none are configured
+ */
+export async function withExitCodeRetry(
+  description: string,
+  fn: () => Promise<number>
+): Promise<number> {
+  const options = getRetryOptions()
+
+  for (let attempt = 1; ; attempt++) {
+    const exitCode = await fn()
+    const isRetryable =
+      exitCode !== 0 &&
+      (options.retryableExitCodes.length === 0 ||
+        options.retryableExitCodes.includes(exitCode))
+
+    if (attempt >= options.attempts || !isRetryable) return exitCode
+    await backoff(description, attempt, options, `exit code ${exitCode}`)
+  }
+}
+
+/**
+ * Log a retry and wait before the next attempt
+ */
+async function backoff(
+  description: string,
+  attempt: number,
+  options: RetryOptions,
+  reason: string
+): Promise<void> {
+  const delay = options.backoffSeconds * 2 ** (attempt - 1)
+  retryCount++
+
+  core.info(
+    `⟳ ${description} failed (${reason}), retrying in ${delay}s (attempt ${attempt + 1}/${options.attempts})`
+  )
+  await new Promise(resolve => setTimeout(resolve, delay * 1000))
+}
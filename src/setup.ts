@@ -2,40 +2,68 @@ import * as core from '@actions/core'
 import * as exec from '@actions/exec'
 import * as io from '@actions/io'
 import * as fs from 'fs'
-import * as os from 'os'
 import * as path from 'path'
-import { MiseConfig, Tool } from './types'
+import { extractFile, zstdSupported } from './archive'
+import { recordOutputs } from './outputs'
+import { withExitCodeRetry } from './retry'
+import {
+  InstallFailure,
+  InstallResult,
+  MiseConfig,
+  Tool,
+  ToolInstall
+} from './types'
 import {
   miseDir,
   getSystemInfo,
-  zstdInstalled,
-  latestMiseVersion,
+  downloadFile,
+  fetchText,
+  miseBinPath,
+  sha256File,
   writeFile,
   getWorkingDirectory
 } from './utils'
+import { miseVersionSatisfies, resolveMiseVersion } from './version'
+
+// How many lines of mise output to keep for a failed install
+const FAILURE_OUTPUT_LINES = 10
+
+// Backends that install tools with a language runtime, e.g. npm:prettier
+const RUNTIME_BACKENDS = ['cargo', 'gem', 'go', 'npm', 'pipx']
+
+// Where mise releases are downloaded from unless mise_download_url_template
+// points at a mirror
+const DEFAULT_DOWNLOAD_URL_TEMPLATE =
+  'https://github.com/jdx/mise/releases/download/v{version}/{file}'
 
 /**
- * Install mise binary if not already present
+ * Install mise binary if not already present, or replace it when it is
+ * another mise version
  */
 export async function setupMise(version?: string): Promise<void> {
   const miseBinDir = path.join(miseDir(), 'bin')
-  const miseBinPath = path.join(
-    miseBinDir,
-    process.platform === 'win32' ? 'mise.exe' : 'mise'
-  )
-
-  if (fs.existsSync(miseBinPath)) {
-    core.info('mise binary already exists, skipping installation')
-    core.addPath(miseBinDir)
-    return
+  const exists = fs.existsSync(miseBinPath())
+
+  if (exists) {
+    const installed = await getMiseBinaryVersion(miseBinPath())
+    if (installed && (await miseVersionSatisfies(installed, version))) {
+      core.info(`mise ${installed} already exists, skipping installation`)
+      core.addPath(miseBinDir)
+      recordOutputs({ miseSource: 'preinstalled' })
+      return
+    }
+    core.info(
+      `Existing mise ${installed ?? 'of unknown version'} does not satisfy ${version}, replacing it`
+    )
   }
 
   core.startGroup(version ? `Download mise@${version}` : 'Setup mise')
 
   try {
     await fs.promises.mkdir(miseBinDir, { recursive: true })
-    await downloadAndInstallMise(version, miseBinPath)
+    await downloadAndInstallMise(version)
     core.addPath(miseBinDir)
+    recordOutputs({ miseSource: 'download' })
     core.info('mise installation completed successfully')
   } catch (error) {
     throw new Error(`Failed to setup mise: ${error}`)
@@ -44,104 +72,172 @@ export async function setupMise(version?: string): Promise<void> {
   }
 }
 
+/**
+ * Find the mise binary the mise_binary input points at, or mise on PATH when
+ * it is `auto`, if its version satisfies the version input
+ * Any version does when no version is given
+ */
+export async function findPreinstalledMise(
+  version?: string
+): Promise<string | undefined> {
+  const input = core.getInput('mise_binary')
+  if (!input) return undefined
+
+  const binary =
+    input === 'auto' ? await io.which('mise', false) : path.resolve(input)
+  if (!binary || !fs.existsSync(binary)) {
+    if (input !== 'auto') throw new Error(`mise_binary not found: ${input}`)
+    core.info('No mise found on PATH, setting up mise')
+    return undefined
+  }
+
+  const installed = await getMiseBinaryVersion(binary)
+  if (!installed) {
+    core.warning(`Failed to get the version of ${binary}, setting up mise`)
+    return undefined
+  }
+
+  if (!(await miseVersionSatisfies(installed, version))) {
+    core.warning(
+      `${binary} is mise ${installed}, which does not satisfy ${version}, setting up mise`
+    )
+    return undefined
+  }
+
+  core.info(`Using preinstalled mise ${installed}: ${binary}`)
+  return binary
+}
+
+/**
+ * Get the version of a mise binary from `mise --version`
+ */
+async function getMiseBinaryVersion(
+  binary: string
+): Promise<string | undefined> {
+  const { stdout } = await exec.getExecOutput(binary, ['--version'], {
+    silent: true,
+    ignoreReturnCode: true
+  })
+  return stdout.match(/\d{4}\.\d+\.\d+/)?.[0]
+}
+
 /**
  * Download and install mise binary
  */
 async function downloadAndInstallMise(
-  version: string | undefined,
-  miseBinPath: string
+  version: string | undefined
 ): Promise<void> {
   const systemInfo = await getSystemInfo()
-  const resolvedVersion = (version || (await latestMiseVersion())).replace(
-    /^v/,
-    ''
-  )
+  const resolvedVersion = await resolveMiseVersion(version)
+  recordOutputs({ resolvedMiseVersion: resolvedVersion })
 
-  const ext = await getArchiveExtension(resolvedVersion)
-  const url = `https://github.com/jdx/mise/releases/download/v${resolvedVersion}/mise-v${resolvedVersion}-${systemInfo.target}${ext}`
-  const archivePath = path.join(os.tmpdir(), `mise${ext}`)
+  const ext = getArchiveExtension(resolvedVersion)
+  const fileName = `mise-v${resolvedVersion}-${systemInfo.target}${ext}`
+  const url = miseDownloadUrl(resolvedVersion, fileName)
 
   core.info(`Downloading mise from: ${url}`)
+  const archivePath = await downloadFile(url)
 
-  switch (ext) {
-    case '.zip':
-      await downloadAndExtractZip(url, archivePath, miseBinPath)
-      break
-    case '.tar.zst':
-      await downloadAndExtractTarZst(url, miseBinPath)
-      break
-    case '.tar.gz':
-      await downloadAndExtractTarGz(url, miseBinPath)
-      break
-    default:
-      await downloadRawBinary(url, miseBinPath)
-      break
-  }
-}
-
-/**
- * Determine the appropriate archive extension
- */
-async function getArchiveExtension(version: string): Promise<string> {
-  if (process.platform === 'win32') {
-    return '.zip'
-  }
+  try {
+    await verifyMiseChecksum(archivePath, resolvedVersion, fileName)
+
+    const archive = await fs.promises.readFile(archivePath)
+    let binary: Buffer
+    try {
+      binary = ext
+        ? extractFile(
+            archive,
+            ext,
+            process.platform === 'win32' ? 'mise/bin/mise.exe' : 'mise/bin/mise'
+          )
+        : archive
+    } catch (error) {
+      throw new Error(`Failed to extract mise from ${fileName}: ${error}`)
+    }
 
-  if (version.startsWith('2024')) {
-    return ''
+    await fs.promises.writeFile(miseBinPath(), binary, { mode: 0o755 })
+  } finally {
+    // Rejected archives are removed too
+    await io.rmRF(archivePath)
   }
-
-  return (await zstdInstalled()) ? '.tar.zst' : '.tar.gz'
 }
 
 /**
- * Download and extract ZIP archive
+ * Verify a downloaded mise archive against the checksum input, or the
+ * release's SHASUMS256.txt when no checksum is pinned
  */
-async function downloadAndExtractZip(
-  url: string,
+async function verifyMiseChecksum(
   archivePath: string,
-  miseBinPath: string
+  version: string,
+  fileName: string
 ): Promise<void> {
-  await exec.exec('curl', ['-fsSL', url, '--output', archivePath])
-  await exec.exec('unzip', [archivePath, '-d', os.tmpdir()])
-  await io.mv(path.join(os.tmpdir(), 'mise/bin/mise.exe'), miseBinPath)
+  const pinned = core.getInput('checksum').trim()
+  const expected = pinned
+    ? pinned.replace(/^sha256:/, '').toLowerCase()
+    : await fetchMiseChecksum(version, fileName)
+  const actual = await sha256File(archivePath)
+
+  if (actual !== expected) {
+    throw new Error(
+      `Checksum mismatch for ${fileName}: expected ${expected}, got ${actual}`
+    )
+  }
+
+  core.info(
+    `✓ Verified ${fileName} against ${pinned ? 'the checksum input' : 'SHASUMS256.txt'}: ${actual}`
+  )
 }
 
 /**
- * Download and extract tar.zst archive
+ * Look up the published checksum of a release file in SHASUMS256.txt
  */
-async function downloadAndExtractTarZst(
-  url: string,
-  miseBinPath: string
-): Promise<void> {
-  await exec.exec('sh', [
-    '-c',
-    `curl -fsSL ${url} | tar --zstd -xf - -C ${os.tmpdir()} && mv ${os.tmpdir()}/mise/bin/mise ${miseBinPath}`
-  ])
+async function fetchMiseChecksum(
+  version: string,
+  fileName: string
+): Promise<string> {
+  const url = miseDownloadUrl(version, 'SHASUMS256.txt')
+  const shasums = await fetchText(url)
+
+  // Lines look like "<sha256>  ./mise-v2025.1.0-linux-x64.tar.gz"
+  for (const line of shasums.split('\n')) {
+    const [checksum, file] = line.trim().split(/\s+/)
+    if (file && path.posix.basename(file) === fileName) {
+      return checksum.toLowerCase()
+    }
+  }
+
+  throw new Error(`No checksum for ${fileName} in ${url}`)
 }
 
 /**
- * Download and extract tar.gz archive
+ * Get the URL of a file of a mise release from mise_download_url_template,
+ * where {version} is the release and {file} the file name
  */
-async function downloadAndExtractTarGz(
-  url: string,
-  miseBinPath: string
-): Promise<void> {
-  await exec.exec('sh', [
-    '-c',
-    `curl -fsSL ${url} | tar -xzf - -C ${os.tmpdir()} && mv ${os.tmpdir()}/mise/bin/mise ${miseBinPath}`
-  ])
+function miseDownloadUrl(version: string, file: string): string {
+  const template =
+    core.getInput('mise_download_url_template') || DEFAULT_DOWNLOAD_URL_TEMPLATE
+  if (!template.includes('{file}')) {
+    throw new Error(
+      `mise_download_url_template must contain {file}: ${template}`
+    )
+  }
+
+  return template.replaceAll('{version}', version).replaceAll('{file}', file)
 }
 
 /**
- * Download raw binary
+ * Determine the appropriate archive extension
  */
-async function downloadRawBinary(
-  url: string,
-  miseBinPath: string
-): Promise<void> {
-  await exec.exec('sh', ['-c', `curl -fsSL ${url} > ${miseBinPath}`])
-  await exec.exec('chmod', ['+x', miseBinPath])
+function getArchiveExtension(version: string): string {
+  if (process.platform === 'win32') {
+    return '.zip'
+  }
+
+  if (version.startsWith('2024')) {
+    return ''
+  }
+
+  return zstdSupported() ? '.tar.zst' : '.tar.gz'
 }
 
 /**
@@ -164,27 +260,94 @@ export async function setupMiseToml(config: MiseConfig): Promise<void> {
 
 /**
  * Execute a mise command
+ * Non-zero exit codes throw unless ignoreReturnCode is set
  */
-export async function executeMiseCommand(args: string[]): Promise<number> {
+export async function executeMiseCommand(
+  args: string[],
+  ignoreReturnCode = false
+): Promise<number> {
   return core.group(`Running mise ${args.join(' ')}`, async () => {
-    const cwd = getWorkingDirectory()
-    const env = core.isDebug()
-      ? { ...process.env, MISE_LOG_LEVEL: 'debug' }
-      : undefined
+    const options = { ...getMiseExecOptions(), ignoreReturnCode }
 
     if (args.length === 1) {
-      return exec.exec(`mise ${args[0]}`, [], { cwd, env })
+      return exec.exec(`mise ${args[0]}`, [], options)
     } else {
-      return exec.exec('mise', args, { cwd, env })
+      return exec.exec('mise', args, options)
     }
   })
 }
 
 /**
- * Test mise installation
+ * Execute a mise command that may fail, keeping its output
+ * Buffered output is printed in one group once the command exits, so the
+ * output of concurrent commands doesn't interleave
+ */
+async function executeMiseCommandWithOutput(
+  args: string[],
+  buffered: boolean
+): Promise<{ exitCode: number; output: string }> {
+  const chunks: Buffer[] = []
+  const listener = (data: Buffer): void => {
+    chunks.push(data)
+  }
+  const options = {
+    ...getMiseExecOptions(),
+    ignoreReturnCode: true,
+    silent: buffered,
+    listeners: { stdout: listener, stderr: listener }
+  }
+
+  const title = `Running mise ${args.join(' ')}`
+  if (!buffered) {
+    const exitCode = await core.group(title, async () =>
+      exec.exec('mise', args, options)
+    )
+    return { exitCode, output: Buffer.concat(chunks).toString() }
+  }
+
+  const exitCode = await exec.exec('mise', args, options)
+  const output = Buffer.concat(chunks).toString()
+  await core.group(title, async () => {
+    core.info(output.trimEnd())
+  })
+
+  return { exitCode, output }
+}
+
+/**
+ * Get the working directory and environment mise commands run with
+ */
+function getMiseExecOptions(): exec.ExecOptions {
+  return {
+    cwd: getWorkingDirectory(),
+    env: core.isDebug()
+      ? { ...process.env, MISE_LOG_LEVEL: 'debug' }
+      : undefined
+  }
+}
+
+/**
+ * Test mise installation and record which mise binary is used
  */
 export async function testMise(): Promise<number> {
-  return executeMiseCommand(['--version'])
+  let stdout = ''
+  const exitCode = await core.group('Running mise --version', async () =>
+    exec.exec('mise', ['--version'], {
+      ...getMiseExecOptions(),
+      listeners: {
+        stdout: data => {
+          stdout += data.toString()
+        }
+      }
+    })
+  )
+
+  recordOutputs({
+    miseVersion: stdout.match(/\d{4}\.\d+\.\d+/)?.[0] || '',
+    misePath: await io.which('mise', true)
+  })
+
+  return exitCode
 }
 
 /**
@@ -198,48 +361,158 @@ export async function installTools(installArgs?: string): Promise<number> {
 
 /**
  * Install only specific tools that weren't restored from cache
+ * Up to install_concurrency tools are installed at once
  */
-export async function installSpecificTools(tools: Tool[]): Promise<Tool[]> {
+export async function installSpecificTools(
+  tools: Tool[]
+): Promise<InstallResult> {
   if (tools.length === 0) {
     core.info('No tools to install')
-    return []
+    return { installedTools: [], failedTools: [], installs: [] }
   }
 
-  core.startGroup(`Installing ${tools.length} tools`)
+  const concurrency = getInstallConcurrency()
+  core.info(
+    `Installing ${tools.length} tools${concurrency > 1 ? `, ${concurrency} at a time` : ''}`
+  )
 
-  const installedTools: Tool[] = []
+  const installs = new Map<Tool, ToolInstall>()
+  const failures = new Map<Tool, InstallFailure>()
+  const installBatch = async (batch: Tool[]): Promise<void> => {
+    // Versions of the same tool share a plugin and download cache, so they
+    // are installed one after another
+    const chains = [...groupByName(batch).values()]
+    await mapConcurrent(chains, concurrency, async chain => {
+      for (const tool of chain) {
+        const { install, failure } = await installTool(tool, concurrency > 1)
+        installs.set(tool, install)
+        if (failure) failures.set(tool, failure)
+      }
+    })
+  }
+
+  // Tools from backends like npm:prettier need their runtime installed first
+  await installBatch(tools.filter(tool => !needsRuntime(tool)))
+  await installBatch(tools.filter(needsRuntime))
+
+  const installedTools = tools.filter(tool => !failures.has(tool))
+  const failedTools = tools.flatMap(tool => failures.get(tool) || [])
+  core.info(
+    `Successfully installed ${installedTools.length}/${tools.length} tools`
+  )
+
+  return {
+    installedTools,
+    failedTools,
+    installs: tools.flatMap(tool => installs.get(tool) || [])
+  }
+}
+
+/**
+ * Install a single tool version, retrying failed installs
+ * Returns how the install went, and why it failed unless the tool was
+ * installed
+ */
+async function installTool(
+  tool: Tool,
+  buffered: boolean
+): Promise<{ install: ToolInstall; failure: InstallFailure | null }> {
+  const spec = `${tool.name}@${tool.version}`
+  // Only the last attempt is timed, failed attempts and backoff would
+  // overstate the time a cache hit saves
+  let startedAt = Date.now()
+  let output = ''
 
   try {
-    // Install tools one by one for better error handling and caching
-    for (const tool of tools) {
-      try {
-        core.info(`Installing ${tool.name}@${tool.version}...`)
-        const result = await executeMiseCommand([
-          'install',
-          `${tool.name}@${tool.version}`
-        ])
-
-        if (result === 0) {
-          core.info(`✓ Successfully installed ${tool.name}@${tool.version}`)
-          installedTools.push(tool)
-        } else {
-          core.warning(`Failed to install ${tool.name}@${tool.version}`)
-        }
-      } catch (error) {
-        core.warning(`Error installing ${tool.name}@${tool.version}: ${error}`)
-      }
+    core.info(`Installing ${spec}...`)
+    const exitCode = await withExitCodeRetry(`Installing ${spec}`, async () => {
+      startedAt = Date.now()
+      const result = await executeMiseCommandWithOutput(
+        ['install', spec],
+        buffered
+      )
+      output = result.output
+      return result.exitCode
+    })
+
+    const install = { tool, exitCode, durationMs: Date.now() - startedAt }
+    if (exitCode === 0) {
+      core.info(`✓ Successfully installed ${spec}`)
+      return { install, failure: null }
     }
 
-    core.info(
-      `Successfully installed ${installedTools.length}/${tools.length} tools`
-    )
+    core.info(`✗ Failed to install ${spec} (exit code ${exitCode})`)
+    return { install, failure: { tool, exitCode, output: lastLines(output) } }
   } catch (error) {
-    core.error(`Failed to install tools: ${error}`)
-  } finally {
-    core.endGroup()
+    core.info(`✗ Error installing ${spec}: ${error}`)
+    return {
+      install: { tool, exitCode: null, durationMs: Date.now() - startedAt },
+      failure: {
+        tool,
+        exitCode: null,
+        output: lastLines(`${output}\n${error}`)
+      }
+    }
+  }
+}
+
+/**
+ * Get the last non-empty lines of command output
+ */
+function lastLines(output: string): string[] {
+  return output
+    .split(/\r?\n/)
+    .map(line => line.trimEnd())
+    .filter(Boolean)
+    .slice(-FAILURE_OUTPUT_LINES)
+}
+
+/**
+ * Parse the install_concurrency input, defaulting to one tool at a time
+ */
+function getInstallConcurrency(): number {
+  const concurrency = parseInt(core.getInput('install_concurrency'), 10)
+  return Number.isNaN(concurrency) ? 1 : Math.max(1, concurrency)
+}
+
+/**
+ * Check whether a tool's backend installs it with a language runtime that
+ * mise may be installing at the same time
+ */
+function needsRuntime(tool: Tool): boolean {
+  const backend = tool.name.split(':')[0]
+  return tool.name.includes(':') && RUNTIME_BACKENDS.includes(backend)
+}
+
+/**
+ * Group tools by name, keeping their order
+ */
+function groupByName(tools: Tool[]): Map<string, Tool[]> {
+  const groups = new Map<string, Tool[]>()
+  for (const tool of tools) {
+    groups.set(tool.name, [...(groups.get(tool.name) || []), tool])
+  }
+  return groups
+}
+
+/**
+ * Run fn over items with at most limit calls in flight
+ */
+async function mapConcurrent<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      await fn(items[next++])
+    }
   }
 
-  return installedTools
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  )
 }
 
 /**
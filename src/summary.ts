@@ -0,0 +1,144 @@
+import * as core from '@actions/core'
+import { formatCacheHit, summarizeCacheResult } from './cache'
+import { formatPhaseTimings, formatSeconds } from './timings'
+import { CacheResult, InstallFailure, RunReport, ToolReport } from './types'
+
+export interface JobSummaryInput {
+  report: RunReport
+  cacheResult?: CacheResult
+  failures: InstallFailure[]
+  // Why the run failed, when it did
+  error?: string
+}
+
+/**
+ * Write a Markdown job summary with the cache and install result of every
+ * tool, unless the job_summary input turns it off
+ * A summary that cannot be written only logs a warning
+ */
+export async function writeJobSummary(input: JobSummaryInput): Promise<void> {
+  if (!core.getBooleanInput('job_summary')) return
+
+  const { report, cacheResult, failures, error } = input
+
+  try {
+    const overview = [
+      `mise version: ${report.miseVersion || 'unknown'}`,
+      `Duration: ${formatSeconds(report.durationMs)}`
+    ]
+    const phases = formatPhaseTimings(report.phaseTimings)
+    if (phases) overview.push(`Phases: ${phases}`)
+    if (cacheResult) {
+      const summary = summarizeCacheResult(cacheResult)
+      overview.push(
+        `Global mise cache: ${summary.globalCacheHit ? '✓ Hit' : '✗ Miss'}`,
+        `Tool caches: ${summary.cachedTools}/${summary.totalTools} restored (${summary.efficiency.toFixed(1)}%)`
+      )
+      if (summary.totalPlugins > 0) {
+        overview.push(
+          `Plugin caches: ${summary.restoredPlugins}/${summary.totalPlugins} restored`
+        )
+      }
+      if (summary.miseCacheHit) {
+        overview.push(
+          `mise cache directory: ${formatCacheHit(summary.miseCacheHit)}`
+        )
+      }
+      if (report.estimatedTimeSavedMs > 0) {
+        overview.push(
+          `Estimated time saved: ~${formatSeconds(report.estimatedTimeSavedMs)}`
+        )
+      }
+    }
+
+    core.summary
+      .addHeading(`mise ${report.success ? '✓' : '✗'}`, 2)
+      .addList(overview)
+
+    if (error) {
+      core.summary.addRaw(`<p><b>Error:</b> ${escapeHtml(error)}</p>`, true)
+    }
+
+    if (report.tools.length > 0) {
+      core.summary.addTable([
+        [
+          { data: 'Tool', header: true },
+          { data: 'Source', header: true },
+          { data: 'Version', header: true },
+          { data: 'Status', header: true },
+          { data: 'Time', header: true }
+        ],
+        ...report.tools.map(toolRow)
+      ])
+    }
+
+    for (const failure of failures) {
+      core.summary
+        .addHeading(
+          escapeHtml(
+            `Failed to install ${failure.tool.name}@${failure.tool.version}`
+          ),
+          3
+        )
+        .addCodeBlock(escapeHtml(failure.output.join('\n')))
+    }
+
+    await core.summary.write()
+  } catch (err) {
+    core.warning(`Failed to write job summary: ${err}`)
+  }
+}
+
+/**
+ * Describe one tool as a summary table row
+ */
+function toolRow(report: ToolReport): string[] {
+  const { tool } = report
+  const version =
+    tool.requestedVersion && tool.requestedVersion !== tool.version
+      ? `${tool.version} (${tool.requestedVersion})`
+      : tool.version
+
+  return [
+    escapeHtml(tool.name),
+    escapeHtml(tool.source),
+    escapeHtml(version),
+    toolStatus(report),
+    toolTime(report)
+  ]
+}
+
+/**
+ * Describe whether a tool was restored, installed or failed to install
+ */
+function toolStatus(report: ToolReport): string {
+  if (report.isRestored) return '♻️ Restored'
+  if (report.installed) return '⬇️ Installed'
+  if (report.installDurationMs !== null) {
+    return report.exitCode === null
+      ? '✗ Failed (mise failed to run)'
+      : `✗ Failed (exit code ${report.exitCode})`
+  }
+  return 'Not installed'
+}
+
+/**
+ * Get how long restoring or installing a tool took
+ */
+function toolTime(report: ToolReport): string {
+  const ms = report.isRestored
+    ? report.restoreDurationMs
+    : report.installDurationMs
+  return ms === null || ms === undefined ? '-' : formatSeconds(ms)
+}
+
+/**
+ * Escape text for the summary's HTML, addRaw and addCodeBlock insert it as is
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
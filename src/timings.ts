@@ -0,0 +1,83 @@
+import * as core from '@actions/core'
+import { CacheResult, PhaseTimings } from './types'
+
+const PHASE_NAMES: Record<keyof PhaseTimings, string> = {
+  discovery: 'discovery',
+  cacheRestore: 'cache restore',
+  miseDownload: 'mise download',
+  install: 'install',
+  cacheSave: 'cache save'
+}
+
+let timings = defaultTimings()
+
+/**
+ * Run a phase of the action, adding its wall-clock time to the phase total
+ */
+export async function timePhase<T>(
+  phase: keyof PhaseTimings,
+  fn: () => Promise<T>
+): Promise<T> {
+  const start = Date.now()
+  try {
+    return await fn()
+  } finally {
+    const elapsed = Date.now() - start
+    timings[phase] += elapsed
+    core.debug(`${PHASE_NAMES[phase]} took ${formatSeconds(elapsed)}`)
+  }
+}
+
+/**
+ * Get the time spent in each phase so far, in milliseconds
+ */
+export function getPhaseTimings(): PhaseTimings {
+  return { ...timings }
+}
+
+/**
+ * Forget recorded timings, so a run starts from zero
+ */
+export function resetPhaseTimings(): void {
+  timings = defaultTimings()
+}
+
+/**
+ * Describe the phases that took any time, e.g. "discovery 0.2s, install 4.0s"
+ */
+export function formatPhaseTimings(phaseTimings: PhaseTimings): string {
+  return (Object.keys(PHASE_NAMES) as (keyof PhaseTimings)[])
+    .filter(phase => phaseTimings[phase] > 0)
+    .map(phase => `${PHASE_NAMES[phase]} ${formatSeconds(phaseTimings[phase])}`)
+    .join(', ')
+}
+
+/**
+ * Format milliseconds as seconds
+ */
+export function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`
+}
+
+/**
+ * Get the timings of a run that has not started any phase
+ */
+function defaultTimings(): PhaseTimings {
+  return {
+    discovery: 0,
+    cacheRestore: 0,
+    miseDownload: 0,
+    install: 0,
+    cacheSave: 0
+  }
+}
+
+/**
+ * Estimate the time restoring tools from cache saved, from how long they took
+ * to install when their caches were saved
+ */
+export function estimateTimeSaved(result: CacheResult): number {
+  return result.toolCacheResults
+    .filter(t => t.isRestored)
+    .reduce((total, t) => total + (t.previousInstallDurationMs ?? 0), 0)
+}
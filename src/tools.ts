@@ -1,28 +1,88 @@
 import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as crypto from 'crypto'
 import * as fs from 'fs'
 import * as glob from '@actions/glob'
-import { Tool } from './types'
+import * as path from 'path'
+import { parse as parseToml } from 'smol-toml'
+import { applyLockfile } from './lockfile'
+import { recordOutputs } from './outputs'
+import {
+  ConfigFile,
+  MiseConfigFile,
+  Plugin,
+  Tool,
+  ToolCacheKeyComponents
+} from './types'
+import { getWorkingDirectory } from './utils'
+
+/**
+ * Config files mise reads in each directory, lowest precedence first
+ * See https://mise.jdx.dev/configuration.html
+ */
+const MISE_CONFIG_FILES: MiseConfigFile[] = [
+  '.config/mise/config.toml',
+  '.config/mise/mise.toml',
+  '.config/mise.toml',
+  '.mise/config.toml',
+  'mise/config.toml',
+  '.rtx.toml',
+  'mise.toml',
+  '.mise.toml',
+  '.config/mise/config.local.toml',
+  '.config/mise/mise.local.toml',
+  '.config/mise.local.toml',
+  '.mise/config.local.toml',
+  '.rtx.local.toml',
+  'mise.local.toml',
+  '.mise.local.toml'
+]
+
+const MISE_CONF_D_PATTERN = /(?:^|\/)(\.config\/mise\/conf\.d\/[^/]+\.toml)$/
+
+// Compiler flags that change the build of any tool compiled from source
+const BUILD_ENV_VARS = ['CFLAGS', 'CPPFLAGS', 'CXXFLAGS', 'LDFLAGS']
+
+// Tool table keys that do not change what gets installed
+const NON_INSTALL_OPTIONS = ['version', 'optional']
 
 /**
  * Parse and collect all tools from various configuration sources
  */
 export async function getAllTools(): Promise<Tool[]> {
-  const tools: Tool[] = []
-
-  // Parse from install_args parameter
-  const installArgsTools = parseInstallArgs()
-  tools.push(...installArgsTools)
+  // With config_globs the files belong to separate projects, so every version
+  // they pin is kept instead of overriding each other
+  const mergeSources = getConfigGlobs().length > 0
+  const toolsByName = new Map<string, Tool[]>()
+  const addSource = (sourceTools: Tool[]): void => {
+    const overridden = new Set<string>()
+    for (const tool of sourceTools) {
+      if (!mergeSources && !overridden.has(tool.name)) {
+        toolsByName.delete(tool.name)
+        overridden.add(tool.name)
+      }
+      toolsByName.set(tool.name, [...(toolsByName.get(tool.name) ?? []), tool])
+    }
+  }
 
-  // Parse from .tool-versions files
-  const toolVersionsTools = await parseToolVersionsFiles()
-  tools.push(...toolVersionsTools)
+  // Parse from .tool-versions and mise config files, lowest precedence first
+  const configFiles = await findConfigFiles()
+  for (const configFile of configFiles) {
+    const fileTools =
+      configFile.source === '.tool-versions'
+        ? await parseToolVersionsFile(configFile.path)
+        : await applyLockfile(
+            await parseMiseTomlFile(configFile.path, configFile.source),
+            configFile.path
+          )
+    addSource(fileTools)
+  }
 
-  // Parse from mise.toml files
-  const miseTomlTools = await parseMiseTomlFiles()
-  tools.push(...miseTomlTools)
+  // Parse from install_args parameter, which overrides every config file
+  addSource(parseInstallArgs())
 
-  // Remove duplicates, preferring more specific sources
-  const uniqueTools = deduplicateTools(tools)
+  // Remove duplicate versions, later entries take precedence
+  const uniqueTools = deduplicateTools([...toolsByName.values()].flat())
 
   core.info(`Found ${uniqueTools.length} tools to manage`)
   uniqueTools.forEach(tool => {
@@ -32,6 +92,26 @@ export async function getAllTools(): Promise<Tool[]> {
   return uniqueTools
 }
 
+/**
+ * Collect the plugins declared in [plugins] tables of mise config files,
+ * e.g. elixir = "https://github.com/my-org/mise-elixir.git#v1.0.0"
+ * A plugin declared in several files comes from the one with the highest
+ * precedence
+ */
+export async function getAllPlugins(): Promise<Plugin[]> {
+  const plugins = new Map<string, Plugin>()
+
+  for (const configFile of await findConfigFiles()) {
+    if (configFile.source === '.tool-versions') continue
+
+    for (const plugin of await parseMiseTomlPlugins(configFile.path)) {
+      plugins.set(plugin.name, plugin)
+    }
+  }
+
+  return Array.from(plugins.values())
+}
+
 /**
  * Parse tools from install_args input parameter
  */
@@ -53,26 +133,163 @@ function parseInstallArgs(): Tool[] {
 }
 
 /**
- * Parse tools from all .tool-versions files
+ * Find every config file to read tools from, sorted so that files mise
+ * gives a higher precedence come later
+ *
+ * By default this looks in the working directory and each of its parents,
+ * like mise does. The config_globs input replaces that with explicit globs.
  */
-async function parseToolVersionsFiles(): Promise<Tool[]> {
-  const tools: Tool[] = []
+async function findConfigFiles(): Promise<ConfigFile[]> {
+  const configGlobs = getConfigGlobs()
+
+  const configFiles =
+    configGlobs.length > 0
+      ? await findConfigFilesFromGlobs(configGlobs)
+      : [
+          ...(await findToolVersionsFiles(getConfigDirectories())),
+          ...(await findMiseConfigFiles(getConfigDirectories()))
+        ]
+
+  return configFiles.sort(compareConfigFiles)
+}
+
+/**
+ * Get the patterns of the config_globs input, one per line
+ */
+function getConfigGlobs(): string[] {
+  return core
+    .getInput('config_globs')
+    .split('\n')
+    .map(pattern => pattern.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Get the working directory and all of its parents
+ */
+function getConfigDirectories(): string[] {
+  const dirs: string[] = []
+  let dir = path.resolve(getWorkingDirectory())
+
+  for (;;) {
+    dirs.push(dir)
+    const parent = path.dirname(dir)
+    if (parent === dir) break
+    dir = parent
+  }
 
+  return dirs
+}
+
+/**
+ * Find .tool-versions files in the given directories
+ */
+async function findToolVersionsFiles(dirs: string[]): Promise<ConfigFile[]> {
   try {
-    const globber = await glob.create('**/.tool-versions', {
-      followSymbolicLinks: false
-    })
-    const files = await globber.glob()
+    const patterns = dirs.map(dir => path.join(dir, '.tool-versions'))
+    const files = await globFiles(patterns)
+
+    return files.map(file => ({ path: file, source: '.tool-versions' }))
+  } catch (error) {
+    core.warning(`Failed to parse .tool-versions files: ${error}`)
+    return []
+  }
+}
+
+/**
+ * Find mise config files in the given directories
+ */
+async function findMiseConfigFiles(dirs: string[]): Promise<ConfigFile[]> {
+  try {
+    const configFiles = getMiseConfigFiles()
+    const patterns = dirs.flatMap(dir => [
+      path.join(dir, '.config/mise/conf.d/*.toml'),
+      ...configFiles.map(configFile => path.join(dir, configFile))
+    ])
+    const files = await globFiles(patterns)
+
+    return classifyConfigFiles(files, false)
+  } catch (error) {
+    core.warning(`Failed to parse mise config files: ${error}`)
+    return []
+  }
+}
+
+/**
+ * Find .tool-versions and mise config files matching explicit globs
+ */
+async function findConfigFilesFromGlobs(
+  patterns: string[]
+): Promise<ConfigFile[]> {
+  try {
+    const files = await globFiles(patterns)
+    const configFiles = classifyConfigFiles(files, true)
 
     for (const file of files) {
-      const fileTools = await parseToolVersionsFile(file)
-      tools.push(...fileTools)
+      if (!configFiles.some(configFile => configFile.path === file)) {
+        core.warning(`Ignoring ${file}, it is not a file mise reads tools from`)
+      }
     }
+
+    return configFiles
   } catch (error) {
-    core.warning(`Failed to parse .tool-versions files: ${error}`)
+    core.warning(`Failed to parse config files from config_globs: ${error}`)
+    return []
   }
+}
 
-  return tools
+/**
+ * Expand glob patterns into the matching files
+ */
+async function globFiles(patterns: string[]): Promise<string[]> {
+  const globber = await glob.create(patterns.join('\n'), {
+    followSymbolicLinks: false
+  })
+  return globber.glob()
+}
+
+/**
+ * Attach the config file name to each discovered path, dropping paths that
+ * are not a file mise reads tools from
+ */
+function classifyConfigFiles(
+  files: string[],
+  includeToolVersions: boolean
+): ConfigFile[] {
+  const configFiles = getMiseConfigFiles()
+  const result: ConfigFile[] = []
+
+  for (const file of files) {
+    const source =
+      path.basename(file) === '.tool-versions'
+        ? includeToolVersions && '.tool-versions'
+        : matchMiseConfigFile(file, configFiles)
+    if (source) result.push({ path: file, source })
+  }
+
+  return result
+}
+
+/**
+ * Order config files by precedence: files in deeper directories override
+ * their parents, and within a directory mise's own file order applies
+ */
+function compareConfigFiles(a: ConfigFile, b: ConfigFile): number {
+  return (
+    configFileDepth(a) - configFileDepth(b) ||
+    sourcePriority(a.source) - sourcePriority(b.source) ||
+    a.path.localeCompare(b.path)
+  )
+}
+
+/**
+ * Count the path segments of the directory a config file belongs to
+ */
+function configFileDepth(configFile: ConfigFile): number {
+  const normalized = configFile.path.replace(/\\/g, '/')
+  const dir = normalized.slice(0, normalized.length - configFile.source.length)
+
+  return path.resolve(dir).split(path.sep).filter(Boolean).length
 }
 
 /**
@@ -88,8 +305,13 @@ async function parseToolVersionsFile(filePath: string): Promise<Tool[]> {
       .filter(line => line.trim() && !line.startsWith('#'))
 
     for (const line of lines) {
-      const [name, version] = line.trim().split(/\s+/)
-      if (name && version) {
+      // Each line is a tool followed by one or more versions, e.g. python 3.11 3.12
+      const [name, ...tokens] = line.trim().split(/\s+/)
+      const commentStart = tokens.findIndex(token => token.startsWith('#'))
+      const versions =
+        commentStart === -1 ? tokens : tokens.slice(0, commentStart)
+
+      for (const version of versions) {
         tools.push({ name, version, source: '.tool-versions' })
       }
     }
@@ -101,99 +323,161 @@ async function parseToolVersionsFile(filePath: string): Promise<Tool[]> {
 }
 
 /**
- * Parse tools from all mise.toml files
+ * Get the config file names mise reads, lowest precedence first,
+ * including the MISE_ENV specific ones
  */
-async function parseMiseTomlFiles(): Promise<Tool[]> {
-  const tools: Tool[] = []
+function getMiseConfigFiles(): MiseConfigFile[] {
+  const envs = (process.env.MISE_ENV || '')
+    .split(',')
+    .map(env => env.trim())
+    .filter(Boolean)
+
+  const envFiles = envs.flatMap((env): MiseConfigFile[] => [
+    `.config/mise/config.${env}.toml`,
+    `.config/mise.${env}.toml`,
+    `mise/config.${env}.toml`,
+    `mise.${env}.toml`,
+    `.mise/config.${env}.toml`,
+    `.mise.${env}.toml`,
+    `.config/mise/config.${env}.local.toml`,
+    `.config/mise.${env}.local.toml`,
+    `mise/config.${env}.local.toml`,
+    `mise.${env}.local.toml`,
+    `.mise/config.${env}.local.toml`,
+    `.mise.${env}.local.toml`
+  ])
+
+  return [...MISE_CONFIG_FILES, ...envFiles]
+}
+
+/**
+ * Find which mise config file a discovered path is
+ * Longer names are checked first so that .config/mise/config.toml is not
+ * mistaken for mise/config.toml
+ */
+function matchMiseConfigFile(
+  filePath: string,
+  configFiles: MiseConfigFile[]
+): MiseConfigFile | null {
+  const normalized = filePath.replace(/\\/g, '/')
+
+  const confD = normalized.match(MISE_CONF_D_PATTERN)
+  if (confD) return confD[1] as MiseConfigFile
+
+  const candidates = [...configFiles].sort((a, b) => b.length - a.length)
+  return (
+    candidates.find(
+      configFile =>
+        normalized === configFile || normalized.endsWith(`/${configFile}`)
+    ) || null
+  )
+}
 
+/**
+ * Parse a single mise.toml file
+ */
+async function parseMiseTomlFile(
+  filePath: string,
+  source: MiseConfigFile
+): Promise<Tool[]> {
   try {
-    const globber = await glob.create('**/mise.toml', {
-      followSymbolicLinks: false
-    })
-    const files = await globber.glob()
+    const content = await fs.promises.readFile(filePath, 'utf8')
+    const config = parseToml(content)
 
-    for (const file of files) {
-      const fileTools = await parseMiseTomlFile(file)
-      tools.push(...fileTools)
-    }
+    return parseTomlTools(config.tools, source)
   } catch (error) {
-    core.warning(`Failed to parse mise.toml files: ${error}`)
+    core.warning(`Failed to parse ${filePath}: ${error}`)
+    return []
   }
-
-  return tools
 }
 
 /**
- * Parse a single mise.toml file
- * This is a simplified parser that handles basic [tools] sections
+ * Parse the [plugins] table of a single mise.toml file
  */
-async function parseMiseTomlFile(filePath: string): Promise<Tool[]> {
-  const tools: Tool[] = []
-
+async function parseMiseTomlPlugins(filePath: string): Promise<Plugin[]> {
   try {
     const content = await fs.promises.readFile(filePath, 'utf8')
-    const lines = content.split('\n')
+    const { plugins } = parseToml(content)
+    if (!isTomlTable(plugins)) return []
 
-    let inToolsSection = false
+    return Object.entries(plugins).flatMap(([name, url]): Plugin[] => {
+      if (typeof url !== 'string' || !url.trim()) return []
 
-    for (const line of lines) {
-      const trimmed = line.trim()
+      const [repository, ref] = url.trim().split('#')
+      return [{ name, repository, ...(ref && { ref }) }]
+    })
+  } catch (error) {
+    // getAllTools already warned about files that fail to parse
+    core.debug(`Failed to parse plugins from ${filePath}: ${error}`)
+    return []
+  }
+}
 
-      // Check for [tools] section
-      if (trimmed === '[tools]') {
-        inToolsSection = true
-        continue
-      }
+/**
+ * Convert the [tools] table of a parsed mise.toml into tools
+ * Supports every form mise accepts, e.g. node = "20", "npm:prettier" = "3",
+ * node = ["20", "22"] and python = { version = "3.11.0", virtualenv = ".venv" }
+ */
+function parseTomlTools(toolsTable: unknown, source: MiseConfigFile): Tool[] {
+  if (!isTomlTable(toolsTable)) return []
 
-      // Check for new section
-      if (trimmed.startsWith('[') && trimmed !== '[tools]') {
-        inToolsSection = false
-        continue
-      }
+  const tools: Tool[] = []
 
-      // Parse tool entries in [tools] section
-      if (inToolsSection && trimmed && !trimmed.startsWith('#')) {
-        const tool = parseTomlToolLine(trimmed)
-        if (tool) tools.push(tool)
+  for (const [name, value] of Object.entries(toolsTable)) {
+    const entries = Array.isArray(value) ? value : [value]
+
+    for (const entry of entries) {
+      const version = parseTomlToolVersion(entry)
+      if (version) {
+        const optional = isTomlTable(entry) && entry.optional === true
+        const options = parseTomlToolOptions(entry)
+        tools.push({
+          name,
+          version,
+          source,
+          ...(optional && { optional }),
+          ...(options && { options })
+        })
       }
     }
-  } catch (error) {
-    core.warning(`Failed to parse ${filePath}: ${error}`)
   }
 
   return tools
 }
 
 /**
- * Parse a single tool line from TOML format
- * Supports formats like: node = "18.17.0", python = {version = "3.11.0"}
+ * Extract the version from a single tool entry, either a plain string or
+ * a table with a version key
  */
-function parseTomlToolLine(line: string): Tool | null {
-  try {
-    const match = line.match(/^(\w+)\s*=\s*(.+)$/)
-    if (!match) return null
-
-    const [, name, value] = match
-    let version: string
-
-    // Handle simple string format: node = "18.17.0"
-    const stringMatch = value.match(/^["']([^"']+)["']$/)
-    if (stringMatch) {
-      version = stringMatch[1]
-    } else {
-      // Handle object format: python = {version = "3.11.0"}
-      const objectMatch = value.match(/version\s*=\s*["']([^"']+)["']/)
-      if (objectMatch) {
-        version = objectMatch[1]
-      } else {
-        return null
-      }
-    }
+function parseTomlToolVersion(entry: unknown): string | null {
+  if (typeof entry === 'string') {
+    return entry.trim() || null
+  }
 
-    return { name, version, source: 'mise.toml' }
-  } catch {
-    return null
+  if (isTomlTable(entry) && typeof entry.version === 'string') {
+    return entry.version.trim() || null
   }
+
+  return null
+}
+
+/**
+ * Extract the options of a tool table, such as virtualenv for python
+ */
+function parseTomlToolOptions(entry: unknown): Record<string, unknown> | null {
+  if (!isTomlTable(entry)) return null
+
+  const options = Object.fromEntries(
+    Object.entries(entry).filter(([key]) => !NON_INSTALL_OPTIONS.includes(key))
+  )
+  return Object.keys(options).length > 0 ? options : null
+}
+
+/**
+ * Check whether a parsed TOML value is a table
+ */
+function isTomlTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
 }
 
 /**
@@ -214,40 +498,188 @@ function parseToolSpec(spec: string, source: Tool['source']): Tool | null {
 }
 
 /**
- * Remove duplicate tools, preferring more specific sources
- * Priority: install_args > mise.toml > .tool-versions
+ * Remove duplicate tools, keeping every version of a tool
+ * When the same version of a tool comes from several sources the later one
+ * is kept, so tools must be ordered lowest precedence first
  */
 function deduplicateTools(tools: Tool[]): Tool[] {
   const toolMap = new Map<string, Tool>()
 
-  const sourcePriority = {
-    install_args: 3,
-    'mise.toml': 2,
-    '.tool-versions': 1
+  for (const tool of tools) {
+    toolMap.set(`${tool.name}@${tool.version}`, tool)
   }
 
-  for (const tool of tools) {
-    const key = tool.name
-    const existing = toolMap.get(key)
+  return Array.from(toolMap.values()).sort(
+    (a, b) =>
+      a.name.localeCompare(b.name) ||
+      a.version.localeCompare(b.version, undefined, { numeric: true })
+  )
+}
+
+/**
+ * Rank a config file within its directory, higher values take precedence
+ */
+function sourcePriority(source: ConfigFile['source']): number {
+  if (source === '.tool-versions') return 0
+  if (MISE_CONF_D_PATTERN.test(source)) return 1
+
+  return getMiseConfigFiles().indexOf(source) + 2
+}
 
+/**
+ * Resolve fuzzy versions such as "latest", "lts" or "20" to the concrete
+ * versions mise would install, so cache keys and paths roll forward with
+ * upstream releases
+ */
+export async function resolveToolVersions(tools: Tool[]): Promise<Tool[]> {
+  if (tools.length === 0) {
+    return []
+  }
+
+  return core.group('Resolving tool versions', async () => {
+    const resolvedTools = await Promise.all(tools.map(resolveToolVersion))
+
+    const resolvedVersions: Record<string, string> = {}
+    for (const [i, tool] of tools.entries()) {
+      resolvedVersions[`${tool.name}@${tool.version}`] =
+        resolvedTools[i].version
+    }
+    recordOutputs({ resolvedVersions: JSON.stringify(resolvedVersions) })
+
+    // Several requested versions can resolve to the same concrete version
+    return deduplicateTools(resolvedTools)
+  })
+}
+
+/**
+ * Resolve a single tool version with `mise latest`
+ */
+async function resolveToolVersion(tool: Tool): Promise<Tool> {
+  // Versions from mise.lock are already concrete
+  if (tool.lock) {
+    core.info(`${tool.name}@${tool.version} is locked`)
+    return tool
+  }
+
+  // ref:, path:, prefix: and similar versions are not resolvable
+  if (tool.version.includes(':') || tool.version === 'system') {
+    core.info(`${tool.name}@${tool.version} is not resolvable, using as-is`)
+    return tool
+  }
+
+  const spec =
+    tool.version === 'latest' ? tool.name : `${tool.name}@${tool.version}`
+
+  try {
+    const { exitCode, stdout, stderr } = await exec.getExecOutput(
+      'mise',
+      ['latest', spec],
+      {
+        cwd: getWorkingDirectory(),
+        ignoreReturnCode: true,
+        silent: true
+      }
+    )
+    const version = stdout.trim()
+
+    if (exitCode !== 0 || !version) {
+      core.warning(
+        `Failed to resolve ${tool.name}@${tool.version}, using as-is: ${stderr.trim()}`
+      )
+      return tool
+    }
+
+    if (version === tool.version) {
+      core.info(`${tool.name}@${tool.version} is already concrete`)
+      return tool
+    }
+
+    core.info(`Resolved ${tool.name}@${tool.version} to ${version}`)
+    return { ...tool, version, requestedVersion: tool.version }
+  } catch (error) {
+    core.warning(
+      `Failed to resolve ${tool.name}@${tool.version}, using as-is: ${error}`
+    )
+    return tool
+  }
+}
+
+/**
+ * Collect everything that changes what gets installed for a tool, so a
+ * changed option, backend, platform or build flag never restores a stale
+ * install
+ */
+export function getToolCacheKeyComponents(
+  tool: Tool,
+  target: string
+): ToolCacheKeyComponents {
+  const backendPrefix = tool.name.includes(':')
+    ? tool.name.slice(0, tool.name.indexOf(':'))
+    : null
+
+  return {
+    name: tool.name,
+    version: tool.version,
+    backend: tool.lock?.backend || backendPrefix || 'default',
+    target,
+    options: tool.options || {},
+    env: getToolBuildEnv(tool),
+    lock: tool.lock?.checksum || tool.lock?.url || null
+  }
+}
+
+/**
+ * Generate a stable hash for a tool from its name and version, plus a digest
+ * of all of its cache key components
+ */
+export function generateToolHash(tool: Tool, target: string): string {
+  const components = getToolCacheKeyComponents(tool, target)
+  const digest = crypto
+    .createHash('sha256')
+    .update(canonicalJson(components))
+    .digest('hex')
+
+  return `${tool.name}-${tool.version}-${digest.slice(0, 16)}`
+}
+
+/**
+ * Get the environment variables that change how a tool is built, e.g.
+ * MISE_NODE_COMPILE or PYTHON_CONFIGURE_OPTS for python
+ */
+function getToolBuildEnv(tool: Tool): Record<string, string> {
+  // npm:prettier is configured through PRETTIER variables
+  const shortName = tool.name.slice(tool.name.lastIndexOf(':') + 1)
+  const prefix = shortName.toUpperCase().replace(/[^A-Z0-9]/g, '_')
+
+  const env: Record<string, string> = {}
+  for (const [key, value] of Object.entries(process.env)) {
     if (
-      !existing ||
-      sourcePriority[tool.source] > sourcePriority[existing.source]
+      value !== undefined &&
+      (key.startsWith(`MISE_${prefix}_`) ||
+        key === `${prefix}_CONFIGURE_OPTS` ||
+        BUILD_ENV_VARS.includes(key))
     ) {
-      toolMap.set(key, tool)
+      env[key] = value
     }
   }
-
-  return Array.from(toolMap.values()).sort((a, b) =>
-    a.name.localeCompare(b.name)
-  )
+  return env
 }
 
 /**
- * Generate a stable hash for a tool based on name and version
+ * Serialize a value as JSON with object keys sorted, so equal values always
+ * serialize the same way
  */
-export function generateToolHash(tool: Tool): string {
-  return `${tool.name}-${tool.version}`
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
 }
 
 /**
@@ -8,8 +8,16 @@ export interface MiseConfig {
   installArgs?: string
   toolVersions?: string
   miseToml?: string
+  urlReplacements?: Record<string, string>
+  onInstallFailure: InstallFailurePolicy
 }
 
+export type InstallFailurePolicy = 'fail' | 'warn' | 'ignore'
+
+// Where the mise binary came from: an existing install, the global cache or
+// a release download
+export type MiseSource = 'preinstalled' | 'cache' | 'download'
+
 export interface CacheConfig {
   enabled: boolean
   saveCacheEnabled: boolean
@@ -25,17 +33,157 @@ export interface SystemInfo {
   isMusl: boolean
 }
 
+/**
+ * Config file names mise reads, relative to the directory they live in
+ */
+export type MiseConfigFile =
+  | `.config/mise/conf.d/${string}.toml`
+  | '.config/mise/config.toml'
+  | '.config/mise/mise.toml'
+  | '.config/mise.toml'
+  | '.mise/config.toml'
+  | 'mise/config.toml'
+  | '.rtx.toml'
+  | 'mise.toml'
+  | '.mise.toml'
+  | '.config/mise/config.local.toml'
+  | '.config/mise/mise.local.toml'
+  | '.config/mise.local.toml'
+  | '.mise/config.local.toml'
+  | '.rtx.local.toml'
+  | 'mise.local.toml'
+  | '.mise.local.toml'
+  | `.config/mise/config.${string}.toml`
+  | `.config/mise.${string}.toml`
+  | `mise/config.${string}.toml`
+  | `mise.${string}.toml`
+  | `.mise/config.${string}.toml`
+  | `.mise.${string}.toml`
+
+export interface ConfigFile {
+  path: string
+  source: MiseConfigFile | '.tool-versions'
+}
+
+/**
+ * What mise.lock records for a tool on this platform
+ */
+export interface ToolLock {
+  backend?: string
+  checksum?: string
+  url?: string
+}
+
 export interface Tool {
   name: string
   version: string
-  source: 'mise.toml' | '.tool-versions' | 'install_args'
+  // 'installs' marks tools only found in the installs directory at job end
+  source: MiseConfigFile | '.tool-versions' | 'install_args' | 'installs'
+  // The version as written in the config, when it was resolved to a
+  // concrete version, e.g. "20" or "lts"
+  requestedVersion?: string
+  lock?: ToolLock
+  // Set with `optional = true` in a mise.toml tool table, a failed install of
+  // an optional tool never fails the action
+  optional?: boolean
+  // The other keys of a mise.toml tool table, e.g. { virtualenv: ".venv" }
+  options?: Record<string, unknown>
 }
 
+/**
+ * Everything that goes into the hash of a tool's cache key
+ */
+export interface ToolCacheKeyComponents {
+  name: string
+  version: string
+  // The backend from mise.lock or the tool name prefix, 'default' otherwise
+  backend: string
+  // The target from getSystemInfo, which includes the libc on Linux
+  target: string
+  options: Record<string, unknown>
+  // Environment variables that change how the tool is built
+  env: Record<string, string>
+  // The checksum or URL recorded in mise.lock
+  lock: string | null
+}
+
+export interface InstallFailure {
+  tool: Tool
+  // null when mise could not be run at all
+  exitCode: number | null
+  // The last lines mise printed
+  output: string[]
+}
+
+export interface ToolInstall {
+  tool: Tool
+  // null when mise could not be run at all
+  exitCode: number | null
+  durationMs: number
+}
+
+export interface InstallResult {
+  installedTools: Tool[]
+  failedTools: InstallFailure[]
+  // Every attempted install, in the order of the requested tools
+  installs: ToolInstall[]
+}
+
+/**
+ * Whether a cache was restored with its exact key, with a restore key
+ * fallback, or not at all
+ */
+export type CacheHit = 'exact' | 'partial' | 'miss'
+
 export interface ToolCacheInfo {
   tool: Tool
   cacheKey: string
   cachePath: string
   isRestored: boolean
+  // How long restoring the cache took
+  restoreDurationMs?: number
+  // How long installing the tool took when the restored cache was saved,
+  // read from the install metadata stored in the cached directory
+  previousInstallDurationMs?: number
+}
+
+/**
+ * Metadata stored inside a tool's install directory, and so in its cache
+ */
+export interface InstallMetadata {
+  installDurationMs: number
+}
+
+/**
+ * A plugin from a [plugins] table in a mise config file
+ */
+export interface Plugin {
+  name: string
+  repository: string
+  // The git ref after the # in the plugin URL, the default branch otherwise
+  ref?: string
+}
+
+/**
+ * The cache of a directory that is restored and saved as a whole
+ */
+export interface DirectoryCacheInfo {
+  cacheKey: string
+  cachePath: string
+  hit: CacheHit
+}
+
+export interface PluginCacheInfo extends DirectoryCacheInfo {
+  plugin: Plugin
+}
+
+/**
+ * What later steps installed beyond the discovered tools and [plugins], cached
+ * so the next run can restore it before knowing about it
+ */
+export interface CacheManifest {
+  tools: Tool[]
+  plugins: Plugin[]
 }
 
 export interface CacheResult {
@@ -44,4 +192,84 @@ export interface CacheResult {
   totalTools: number
   cachedTools: number
   missingTools: Tool[]
+  pluginCacheResults: PluginCacheInfo[]
+  // The mise cache directory, null when it was not restored
+  miseCacheResult: DirectoryCacheInfo | null
+  // What the manifest of an earlier run added to the discovered tools and
+  // plugins, null when none was restored
+  manifest: CacheManifest | null
+}
+
+export interface CacheSummary {
+  globalCacheHit: boolean
+  totalTools: number
+  cachedTools: number
+  restoredTools: Tool[]
+  missingTools: Tool[]
+  totalPlugins: number
+  restoredPlugins: number
+  // null when the mise cache directory was not restored
+  miseCacheHit: CacheHit | null
+  // Percentage of tools restored from cache
+  efficiency: number
+}
+
+/**
+ * Every output the action sets, see action.yml
+ * Lists are JSON encoded
+ */
+export interface ActionOutputs {
+  cacheHit: boolean
+  globalCacheHit: boolean
+  partialCacheHit: boolean
+  toolsCacheHitRatio: string
+  cachedToolsCount: number
+  missingToolsCount: number
+  installedTools: string
+  failedTools: string
+  resolvedVersions: string
+  miseVersion: string
+  resolvedMiseVersion: string
+  misePath: string
+  miseSource: MiseSource | ''
+  retryCount: number
+  reportPath: string
+  phaseTimings: string
+  estimatedTimeSavedMs: number
+}
+
+/**
+ * Wall-clock time spent in each phase of the action, in milliseconds
+ */
+export interface PhaseTimings {
+  discovery: number
+  cacheRestore: number
+  miseDownload: number
+  install: number
+  cacheSave: number
+}
+
+export interface ToolReport extends ToolCacheInfo {
+  // Size of the tool's install directory when it was restored from cache
+  restoredBytes: number
+  installed: boolean
+  // null when the tool was not installed by this run
+  installDurationMs: number | null
+  exitCode: number | null
+}
+
+/**
+ * The JSON report written to report_path
+ */
+export interface RunReport {
+  success: boolean
+  durationMs: number
+  miseVersion: string
+  misePath: string
+  globalCacheHit: boolean
+  retryCount: number
+  phaseTimings: PhaseTimings
+  // Sum of the previous install durations of the restored tools
+  estimatedTimeSavedMs: number
+  tools: ToolReport[]
 }
@@ -1,17 +1,31 @@
 import * as core from '@actions/core'
 import * as exec from '@actions/exec'
+import {
+  HttpClient,
+  HttpClientError,
+  HttpClientResponse
+} from '@actions/http-client'
+import * as crypto from 'crypto'
 import * as fs from 'fs'
+import { OutgoingHttpHeaders } from 'http'
 import * as os from 'os'
 import * as path from 'path'
+import { pipeline } from 'stream/promises'
+import { withRetry } from './retry'
 import { SystemInfo } from './types'
 
 /**
  * Get the mise data directory path
+ * Precedence: saved state, mise_dir input, MISE_DATA_DIR, XDG_DATA_HOME,
+ * then the platform default
  */
 export function miseDir(): string {
   const dir = core.getState('MISE_DIR')
   if (dir) return dir
 
+  const input = core.getInput('mise_dir')
+  if (input) return path.resolve(input)
+
   const { MISE_DATA_DIR, XDG_DATA_HOME, LOCALAPPDATA } = process.env
   if (MISE_DATA_DIR) return MISE_DATA_DIR
   if (XDG_DATA_HOME) return path.join(XDG_DATA_HOME, 'mise')
@@ -21,6 +35,31 @@ export function miseDir(): string {
   return path.join(os.homedir(), '.local', 'share', 'mise')
 }
 
+/**
+ * Get the path of the mise binary in the mise data directory
+ */
+export function miseBinPath(): string {
+  return path.join(
+    miseDir(),
+    'bin',
+    process.platform === 'win32' ? 'mise.exe' : 'mise'
+  )
+}
+
+/**
+ * Get the directory mise keeps downloads and HTTP responses in
+ * Precedence: MISE_CACHE_DIR, XDG_CACHE_HOME, then the platform default
+ */
+export function miseCacheDir(): string {
+  const { MISE_CACHE_DIR, XDG_CACHE_HOME } = process.env
+  if (MISE_CACHE_DIR) return MISE_CACHE_DIR
+  if (XDG_CACHE_HOME) return path.join(XDG_CACHE_HOME, 'mise')
+  if (process.platform === 'darwin')
+    return path.join(os.homedir(), 'Library', 'Caches', 'mise')
+
+  return path.join(os.homedir(), '.cache', 'mise')
+}
+
 /**
  * Get system target information for binary downloads
  */
@@ -72,26 +111,110 @@ async function checkIsMusl(): Promise<boolean> {
 }
 
 /**
- * Check if zstd is installed on the system
+ * Get the latest mise version from the release endpoint, or the
+ * mise_version_url input when it points at a mirror
+ */
+export async function latestMiseVersion(): Promise<string> {
+  const url =
+    core.getInput('mise_version_url') || 'https://mise.jdx.dev/VERSION'
+  const version = await fetchText(url)
+  return version.trim()
+}
+
+/**
+ * Fetch a small text file over HTTP, retrying transient failures
+ */
+export async function fetchText(
+  url: string,
+  headers?: OutgoingHttpHeaders
+): Promise<string> {
+  const client = new HttpClient('mise-action')
+
+  return withRetry(
+    `Fetching ${url}`,
+    async () => {
+      const response = await client.get(url, headers)
+      const body = await response.readBody()
+
+      if (response.message.statusCode !== 200) {
+        throw httpStatusError(`Failed to fetch ${url}`, response)
+      }
+
+      return body
+    },
+    isRetryableHttpError
+  )
+}
+
+/**
+ * Download a file into the runner's temp directory, retrying transient
+ * failures
+ * Downloads with HttpClient rather than tool-cache, whose own retries would
+ * multiply the retry_attempts input
  */
-export async function zstdInstalled(): Promise<boolean> {
+export async function downloadFile(url: string): Promise<string> {
+  const client = new HttpClient('mise-action')
+  const dest = path.join(
+    process.env.RUNNER_TEMP || os.tmpdir(),
+    path.basename(new URL(url).pathname)
+  )
+
   try {
-    await exec.exec('zstd', ['--version'])
-    return true
-  } catch {
-    return false
+    return await withRetry(
+      `Downloading ${url}`,
+      async () => {
+        const response = await client.get(url)
+        if (response.message.statusCode !== 200) {
+          await response.readBody()
+          throw httpStatusError(`Failed to download ${url}`, response)
+        }
+
+        await pipeline(response.message, fs.createWriteStream(dest))
+        return dest
+      },
+      isRetryableHttpError
+    )
+  } catch (error) {
+    if (error instanceof HttpClientError) throw error
+    throw new Error(`Failed to download ${url}: ${error}`)
   }
 }
 
 /**
- * Get the latest mise version from the release endpoint
+ * Build the error of a request that got an unexpected status, keeping the
+ * response headers for isRetryableHttpError
  */
-export async function latestMiseVersion(): Promise<string> {
-  const rsp = await exec.getExecOutput('curl', [
-    '-fsSL',
-    'https://mise.jdx.dev/VERSION'
-  ])
-  return rsp.stdout.trim()
+function httpStatusError(
+  message: string,
+  response: HttpClientResponse
+): HttpClientError {
+  const status = response.message.statusCode ?? 0
+  const error = new HttpClientError(`${message}: HTTP ${status}`, status)
+  error.result = { headers: response.message.headers }
+  return error
+}
+
+/**
+ * Check whether a failed HTTP request is worth retrying: network errors,
+ * timeouts, rate limiting and server errors are, other statuses are not
+ * GitHub reports an exhausted rate limit as 403 with no requests remaining
+ */
+export function isRetryableHttpError(error: unknown): boolean {
+  if (!(error instanceof HttpClientError)) return true
+
+  const status = error.statusCode
+  if (status === 403) {
+    return error.result?.headers?.['x-ratelimit-remaining'] === '0'
+  }
+  return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * Compute the hex encoded SHA-256 digest of a file
+ */
+export async function sha256File(filePath: string): Promise<string> {
+  const content = await fs.promises.readFile(filePath)
+  return crypto.createHash('sha256').update(content).digest('hex')
 }
 
 /**
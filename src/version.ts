@@ -0,0 +1,238 @@
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as path from 'path'
+import { parse as parseToml } from 'smol-toml'
+import {
+  fetchText,
+  getWorkingDirectory,
+  latestMiseVersion,
+  miseCacheDir
+} from './utils'
+
+// How long a looked up latest mise version is reused before looking it up again
+const LATEST_VERSION_TTL_MS = 60 * 60 * 1000
+
+// How many pages of 100 releases to search for a version matching a constraint
+const MAX_RELEASE_PAGES = 5
+
+// Lists mise releases to match version constraints against, unless
+// mise_releases_url points at a mirror of it
+const DEFAULT_RELEASES_URL = 'https://api.github.com/repos/jdx/mise/releases'
+
+// A single release, e.g. 2025.1.0
+const CONCRETE_VERSION = /^\d+\.\d+\.\d+$/
+
+/**
+ * Resolve the version input to a concrete mise version
+ * No version or `latest` looks up the latest release, constraints like
+ * `2025.x` or `>=2025.9` pick the newest matching release
+ */
+export async function resolveMiseVersion(version?: string): Promise<string> {
+  if (!version || version === 'latest') return resolveLatestVersion()
+
+  const pinned = version.replace(/^v/, '')
+  if (CONCRETE_VERSION.test(pinned)) return pinned
+
+  const resolved = await resolveVersionConstraint(version)
+  core.info(`Resolved mise version ${version}: ${resolved}`)
+  return resolved
+}
+
+/**
+ * Check whether an installed mise version satisfies the version input
+ * Any version does when no version is given
+ */
+export async function miseVersionSatisfies(
+  installed: string,
+  version?: string
+): Promise<boolean> {
+  if (!version) return true
+  if (version === 'latest') return installed === (await resolveLatestVersion())
+
+  const pinned = version.replace(/^v/, '')
+  if (CONCRETE_VERSION.test(pinned)) return installed === pinned
+
+  return parseVersionConstraint(version)(parseVersion(installed))
+}
+
+/**
+ * Read the mise version from the version_file input
+ * A mise.toml gives its min_version as a `>=` constraint, any other file is
+ * read as the version itself, e.g. a .mise-version file containing 2025.1.0
+ */
+export async function readVersionFile(): Promise<string | undefined> {
+  const input = core.getInput('version_file')
+  if (!input) return undefined
+
+  const file = path.resolve(getWorkingDirectory(), input)
+  let content: string
+  try {
+    content = await fs.promises.readFile(file, 'utf8')
+  } catch (error) {
+    throw new Error(`Failed to read version_file ${input}: ${error}`)
+  }
+
+  const version =
+    path.extname(file) === '.toml'
+      ? parseMinVersion(content, input)
+      : content
+          .split('\n')
+          .map(line => line.trim())
+          .find(line => line && !line.startsWith('#'))
+  if (!version) {
+    throw new Error(`No mise version found in version_file ${input}`)
+  }
+
+  core.info(`Read mise version ${version} from ${input}`)
+  return version
+}
+
+/**
+ * Get the min_version of a mise.toml as a constraint, it is either a version
+ * or a table of hard and soft minimums
+ */
+function parseMinVersion(content: string, file: string): string | undefined {
+  let minVersion: unknown
+  try {
+    minVersion = parseToml(content).min_version
+  } catch (error) {
+    throw new Error(`Failed to parse version_file ${file}: ${error}`)
+  }
+
+  if (typeof minVersion === 'object' && minVersion !== null) {
+    const { hard, soft } = minVersion as Record<string, unknown>
+    minVersion = hard ?? soft
+  }
+  return typeof minVersion === 'string' ? `>=${minVersion}` : undefined
+}
+
+/**
+ * Look up the latest release
+ * Lookups are kept in the mise cache directory for an hour, so runs on the
+ * same runner agree on what `latest` is
+ */
+async function resolveLatestVersion(): Promise<string> {
+  const lookupPath = path.join(miseCacheDir(), 'mise-action-latest.json')
+  try {
+    const lookup = JSON.parse(await fs.promises.readFile(lookupPath, 'utf8'))
+    if (Date.now() - lookup.fetchedAt < LATEST_VERSION_TTL_MS) {
+      core.info(
+        `Using latest mise version looked up earlier: ${lookup.version}`
+      )
+      return lookup.version
+    }
+  } catch {
+    // Not looked up yet, or the lookup is unreadable
+  }
+
+  const latest = (await latestMiseVersion()).replace(/^v/, '')
+  core.info(`Resolved latest mise version: ${latest}`)
+  try {
+    await fs.promises.mkdir(path.dirname(lookupPath), { recursive: true })
+    await fs.promises.writeFile(
+      lookupPath,
+      JSON.stringify({ version: latest, fetchedAt: Date.now() })
+    )
+  } catch (error) {
+    core.debug(`Failed to remember the latest mise version: ${error}`)
+  }
+  return latest
+}
+
+/**
+ * Find the newest mise release matching a constraint, searching the GitHub
+ * releases list, or the mise_releases_url mirror of it, from the newest release
+ */
+async function resolveVersionConstraint(constraint: string): Promise<string> {
+  const matches = parseVersionConstraint(constraint)
+  const releasesUrl = core.getInput('mise_releases_url') || DEFAULT_RELEASES_URL
+  // The token is for GitHub only, never hand it to a mirror
+  const token =
+    releasesUrl === DEFAULT_RELEASES_URL ? core.getInput('github_token') : ''
+  const headers = {
+    accept: 'application/vnd.github+json',
+    ...(token ? { authorization: `Bearer ${token}` } : {})
+  }
+
+  for (let page = 1; page <= MAX_RELEASE_PAGES; page++) {
+    const url = new URL(releasesUrl)
+    url.searchParams.set('per_page', '100')
+    url.searchParams.set('page', String(page))
+    const releases: {
+      tag_name: string
+      draft: boolean
+      prerelease: boolean
+    }[] = JSON.parse(await fetchText(url.toString(), headers))
+    if (releases.length === 0) break
+
+    const versions = releases
+      .filter(release => !release.draft && !release.prerelease)
+      .map(release => release.tag_name.replace(/^v/, ''))
+      .filter(version => CONCRETE_VERSION.test(version))
+      .filter(version => matches(parseVersion(version)))
+      .sort((a, b) => compareVersions(parseVersion(b), parseVersion(a)))
+    if (versions.length > 0) return versions[0]
+  }
+
+  throw new Error(`No mise release matches version ${constraint}`)
+}
+
+/**
+ * Parse a version constraint into a predicate
+ * Space or comma separated terms must all match, each is a version prefix
+ * like `2025`, `2025.x` or `2025.9.*`, or a comparison like `>=2025.9`
+ */
+function parseVersionConstraint(
+  constraint: string
+): (version: number[]) => boolean {
+  const terms = constraint
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(term => {
+      const match = term.match(/^(>=|<=|>|<|=)?v?(\d+(?:\.(?:\d+|x|\*))*)$/)
+      if (!match) {
+        throw new Error(`Invalid mise version constraint: ${constraint}`)
+      }
+
+      const [, operator, version] = match
+      const parts = version.split('.')
+      const wildcard = parts.findIndex(part => part === 'x' || part === '*')
+      const prefix = parseVersion(
+        parts.slice(0, wildcard === -1 ? parts.length : wildcard).join('.')
+      )
+      if (operator && operator !== '=') {
+        if (wildcard !== -1) {
+          throw new Error(`Invalid mise version constraint: ${constraint}`)
+        }
+        return (v: number[]): boolean => {
+          const order = compareVersions(v, prefix)
+          if (operator === '>=') return order >= 0
+          if (operator === '>') return order > 0
+          if (operator === '<=') return order <= 0
+          return order < 0
+        }
+      }
+      return (v: number[]): boolean =>
+        prefix.every((part, index) => v[index] === part)
+    })
+
+  return version => terms.every(term => term(version))
+}
+
+/**
+ * Split a version into its numeric parts
+ */
+function parseVersion(version: string): number[] {
+  return version ? version.split('.').map(Number) : []
+}
+
+/**
+ * Compare versions part by part, treating missing parts as 0
+ */
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import * as zlib from 'zlib'
+import { extractFile, zstdSupported } from '../src/archive'
+
+/**
+ * Build a zip archive with deflated entries
+ */
+function createZip(files: Record<string, string>): Buffer {
+  const local: Buffer[] = []
+  const central: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = zlib.deflateRawSync(Buffer.from(content))
+
+    const header = Buffer.alloc(30)
+    header.writeUInt32LE(0x04034b50, 0)
+    header.writeUInt16LE(8, 8)
+    header.writeUInt32LE(data.length, 18)
+    header.writeUInt32LE(content.length, 22)
+    header.writeUInt16LE(name.length, 26)
+    local.push(header, Buffer.from(name), data)
+
+    const entry = Buffer.alloc(46)
+    entry.writeUInt32LE(0x02014b50, 0)
+    entry.writeUInt16LE(8, 10)
+    entry.writeUInt32LE(data.length, 20)
+    entry.writeUInt32LE(content.length, 24)
+    entry.writeUInt16LE(name.length, 28)
+    entry.writeUInt32LE(offset, 42)
+    central.push(entry, Buffer.from(name))
+
+    offset += header.length + name.length + data.length
+  }
+
+  const centralDirectory = Buffer.concat(central)
+  const eocd = Buffer.alloc(22)
+  eocd.writeUInt32LE(0x06054b50, 0)
+  eocd.writeUInt16LE(Object.keys(files).length, 8)
+  eocd.writeUInt16LE(Object.keys(files).length, 10)
+  eocd.writeUInt32LE(centralDirectory.length, 12)
+  eocd.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...local, centralDirectory, eocd])
+}
+
+describe('archive', () => {
+  const files = {
+    'mise/README.md': 'readme',
+    'mise/bin/mise': '#!/bin/sh\necho mise\n'.repeat(100),
+    'mise/man/man1/mise.1': 'manual'
+  }
+
+  describe('extractFile', () => {
+    it('should extract a file from a .tar.gz archive', () => {
+      const archive = zlib.gzipSync(createTar(files))
+
+      const result = extractFile(archive, '.tar.gz', 'mise/bin/mise')
+
+      expect(result.toString()).toBe(files['mise/bin/mise'])
+    })
+
+    it('should match members with a leading ./', () => {
+      const archive = zlib.gzipSync(createTar({ './mise/bin/mise': 'mise' }))
+
+      const result = extractFile(archive, '.tar.gz', 'mise/bin/mise')
+
+      expect(result.toString()).toBe('mise')
+    })
+
+    it('should extract a file from a .zip archive', () => {
+      const archive = createZip({
+        'mise/README.md': 'readme',
+        'mise/bin/mise.exe': 'MZ mise'
+      })
+
+      const result = extractFile(archive, '.zip', 'mise/bin/mise.exe')
+
+      expect(result.toString()).toBe('MZ mise')
+    })
+
+    it.runIf(zstdSupported())(
+      'should extract a file from a .tar.zst archive',
+      () => {
+        const archive = zlib.zstdCompressSync(createTar(files))
+
+        const result = extractFile(archive, '.tar.zst', 'mise/bin/mise')
+
+        expect(result.toString()).toBe(files['mise/bin/mise'])
+      }
+    )
+
+    it.skipIf(zstdSupported())(
+      'should fail on .tar.zst without zstd support',
+      () => {
+        expect(() =>
+          extractFile(Buffer.alloc(0), '.tar.zst', 'mise/bin/mise')
+        ).toThrow('zstd is not supported')
+      }
+    )
+
+    it('should fail when the file is not in the archive', () => {
+      const archive = zlib.gzipSync(createTar({ 'mise/README.md': 'readme' }))
+
+      expect(() => extractFile(archive, '.tar.gz', 'mise/bin/mise')).toThrow(
+        'mise/bin/mise not found in archive'
+      )
+    })
+
+    it('should fail on corrupt archives', () => {
+      expect(() =>
+        extractFile(Buffer.from('not a gzip'), '.tar.gz', 'mise/bin/mise')
+      ).toThrow()
+      expect(() =>
+        extractFile(Buffer.alloc(100), '.zip', 'mise/bin/mise.exe')
+      ).toThrow('Not a zip archive')
+    })
+  })
+})
@@ -1,10 +1,19 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import * as cache from '@actions/cache'
 import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as crypto from 'crypto'
 import * as fs from 'fs'
-import { restoreAllCaches, saveAllCaches } from '../src/cache'
+import * as path from 'path'
+import {
+  restoreAllCaches,
+  restoreMiseCache,
+  saveAllCaches,
+  writeInstallMetadata
+} from '../src/cache'
 import * as utils from '../src/utils'
 import * as tools from '../src/tools'
+import { Tool } from '../src/types'
 
 vi.mock('../src/utils')
 vi.mock('../src/tools')
@@ -27,6 +36,8 @@ describe('cache', () => {
       isMusl: false
     })
     vi.mocked(utils.miseDir).mockReturnValue('/mock/mise/dir')
+    vi.mocked(utils.miseBinPath).mockReturnValue('/mock/mise/dir/bin/mise')
+    vi.mocked(utils.miseCacheDir).mockReturnValue('/tmp/test-home/.cache/mise')
     vi.mocked(tools.generateToolHash).mockImplementation(
       tool => `${tool.name}-${tool.version}`
     )
@@ -45,12 +56,11 @@ describe('cache', () => {
   describe('restoreAllCaches', () => {
     it('should restore global cache and all tool caches successfully', async () => {
       vi.mocked(cache.restoreCache)
-        .mockResolvedValueOnce('mise-v1-linux-x64-v2024.1.1-global') // global cache
         .mockResolvedValueOnce('mise-v1-linux-x64-tool-node-18.17.0') // node cache
         .mockResolvedValueOnce('mise-v1-linux-x64-tool-python-3.11.0') // python cache
         .mockResolvedValueOnce('mise-v1-linux-x64-tool-go-1.21.0') // go cache
 
-      const result = await restoreAllCaches(mockTools)
+      const result = await restoreAllCaches(mockTools, true)
 
       expect(result).toEqual({
         globalCacheHit: true,
@@ -59,80 +69,159 @@ describe('cache', () => {
             tool: mockTools[0],
             cacheKey: 'mise-v1-linux-x64-tool-node-18.17.0',
             cachePath: '/mock/mise/dir/installs/node/18.17.0',
-            isRestored: true
+            isRestored: true,
+            restoreDurationMs: expect.any(Number)
           },
           {
             tool: mockTools[1],
             cacheKey: 'mise-v1-linux-x64-tool-python-3.11.0',
             cachePath: '/mock/mise/dir/installs/python/3.11.0',
-            isRestored: true
+            isRestored: true,
+            restoreDurationMs: expect.any(Number)
           },
           {
             tool: mockTools[2],
             cacheKey: 'mise-v1-linux-x64-tool-go-1.21.0',
             cachePath: '/mock/mise/dir/installs/go/1.21.0',
-            isRestored: true
+            isRestored: true,
+            restoreDurationMs: expect.any(Number)
           }
         ],
         totalTools: 3,
         cachedTools: 3,
-        missingTools: []
+        missingTools: [],
+        pluginCacheResults: [],
+        miseCacheResult: {
+          cacheKey: 'mise-v1-linux-x64-cache-mock-hash',
+          cachePath: '/tmp/test-home/.cache/mise',
+          hit: 'miss'
+        },
+        manifest: null
       })
+    })
+
+    it('should log the cache key components of each tool', async () => {
+      vi.mocked(tools.getToolCacheKeyComponents).mockImplementation(
+        (tool, target) => ({
+          name: tool.name,
+          version: tool.version,
+          backend: 'default',
+          target,
+          options: {},
+          env: {},
+          lock: null
+        })
+      )
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+
+      await restoreAllCaches([mockTools[0]], false)
+
+      expect(tools.generateToolHash).toHaveBeenCalledWith(
+        mockTools[0],
+        'linux-x64'
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        '  Key components: {"name":"node","version":"18.17.0","backend":"default","target":"linux-x64","options":{},"env":{},"lock":null}'
+      )
+    })
+
+    it('should read how long restored tools took to install', async () => {
+      vi.mocked(cache.restoreCache)
+        .mockResolvedValueOnce('mise-v1-linux-x64-tool-node-18.17.0')
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce('mise-v1-linux-x64-tool-go-1.21.0')
+      vi.mocked(fs.promises.readFile).mockImplementation((async (
+        file: fs.PathLike
+      ) => {
+        if (file === '/mock/mise/dir/installs/node/18.17.0/.mise-action.json') {
+          return '{"installDurationMs":12000}'
+        }
+        throw new Error('ENOENT')
+      }) as unknown as typeof fs.promises.readFile)
+
+      const result = await restoreAllCaches(mockTools, false)
+
+      expect(
+        result.toolCacheResults.map(t => t.previousInstallDurationMs)
+      ).toEqual([12000, undefined, undefined])
+    })
+
+    it('should restore plugins by repository and ref', async () => {
+      const elixir = {
+        name: 'elixir',
+        repository: 'https://github.com/my-org/mise-elixir.git',
+        ref: 'v1.0.0'
+      }
+      vi.mocked(cache.restoreCache).mockImplementation(async (paths, key) =>
+        paths[0] === '/mock/mise/dir/plugins/elixir' ? key : undefined
+      )
+
+      const result = await restoreAllCaches([], false, [elixir])
 
-      expect(core.setOutput).toHaveBeenCalledWith('cache-hit', true)
-      expect(core.setOutput).toHaveBeenCalledWith('global-cache-hit', true)
-      expect(core.setOutput).toHaveBeenCalledWith('partial-cache-hit', true)
-      expect(core.setOutput).toHaveBeenCalledWith(
-        'tools-cache-hit-ratio',
-        '3/3'
+      expect(cache.restoreCache).toHaveBeenCalledWith(
+        ['/mock/mise/dir/plugins/elixir'],
+        'mise-v1-linux-x64-plugin-elixir-mock-hash'
+      )
+      expect(crypto.createHash('sha256').update).toHaveBeenCalledWith(
+        'https://github.com/my-org/mise-elixir.git#v1.0.0'
+      )
+      expect(result.pluginCacheResults).toEqual([
+        {
+          plugin: elixir,
+          cacheKey: 'mise-v1-linux-x64-plugin-elixir-mock-hash',
+          cachePath: '/mock/mise/dir/plugins/elixir',
+          hit: 'exact'
+        }
+      ])
+      expect(core.info).toHaveBeenCalledWith('  Plugin caches: 1/1 restored')
+    })
+
+    it('should fall back to any mise cache directory', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(
+        'mise-v1-linux-x64-cache-other'
+      )
+
+      const result = await restoreAllCaches([], false)
+
+      expect(cache.restoreCache).toHaveBeenCalledWith(
+        ['/tmp/test-home/.cache/mise'],
+        'mise-v1-linux-x64-cache-mock-hash',
+        ['mise-v1-linux-x64-cache-']
+      )
+      expect(result.miseCacheResult?.hit).toBe('partial')
+      expect(core.info).toHaveBeenCalledWith(
+        '  mise cache directory: ~ Partial hit'
       )
     })
 
     it('should handle partial cache hits', async () => {
       vi.mocked(cache.restoreCache)
-        .mockResolvedValueOnce(undefined) // global cache miss
         .mockResolvedValueOnce('mise-v1-linux-x64-tool-node-18.17.0') // node cache hit
         .mockResolvedValueOnce(undefined) // python cache miss
         .mockResolvedValueOnce('mise-v1-linux-x64-tool-go-1.21.0') // go cache hit
 
-      const result = await restoreAllCaches(mockTools)
+      const result = await restoreAllCaches(mockTools, false)
 
       expect(result.globalCacheHit).toBe(false)
       expect(result.cachedTools).toBe(2)
       expect(result.missingTools).toHaveLength(1)
       expect(result.missingTools[0]).toEqual(mockTools[1]) // python
-
-      expect(core.setOutput).toHaveBeenCalledWith('cache-hit', false)
-      expect(core.setOutput).toHaveBeenCalledWith('global-cache-hit', false)
-      expect(core.setOutput).toHaveBeenCalledWith('partial-cache-hit', true)
-      expect(core.setOutput).toHaveBeenCalledWith(
-        'tools-cache-hit-ratio',
-        '2/3'
-      )
     })
 
     it('should handle complete cache miss', async () => {
       vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
 
-      const result = await restoreAllCaches(mockTools)
+      const result = await restoreAllCaches(mockTools, false)
 
       expect(result.globalCacheHit).toBe(false)
       expect(result.cachedTools).toBe(0)
       expect(result.missingTools).toEqual(mockTools)
-
-      expect(core.setOutput).toHaveBeenCalledWith('cache-hit', false)
-      expect(core.setOutput).toHaveBeenCalledWith('global-cache-hit', false)
-      expect(core.setOutput).toHaveBeenCalledWith('partial-cache-hit', false)
-      expect(core.setOutput).toHaveBeenCalledWith(
-        'tools-cache-hit-ratio',
-        '0/3'
-      )
     })
 
     it('should handle empty tools array', async () => {
       vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
 
-      const result = await restoreAllCaches([])
+      const result = await restoreAllCaches([], false)
 
       expect(result.totalTools).toBe(0)
       expect(result.cachedTools).toBe(0)
@@ -144,32 +233,26 @@ describe('cache', () => {
         new Error('Cache service unavailable')
       )
 
-      const result = await restoreAllCaches(mockTools)
+      const result = await restoreAllCaches(mockTools, false)
 
       expect(result.globalCacheHit).toBe(false)
       expect(result.cachedTools).toBe(0)
       expect(core.warning).toHaveBeenCalledWith(
-        expect.stringContaining('Failed to restore global mise cache')
+        expect.stringContaining('Failed to restore cache for node')
       )
     })
 
     it('should use correct cache keys with custom prefix', async () => {
-      vi.mocked(core.getInput).mockImplementation(name => {
-        switch (name) {
-          case 'version':
-            return 'v2024.2.0'
-          case 'cache_key_prefix':
-            return 'custom-prefix'
-          default:
-            return ''
-        }
-      })
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'cache_key_prefix' ? 'custom-prefix' : ''
+      )
 
-      await restoreAllCaches([mockTools[0]])
+      await restoreMiseCache('2024.2.0')
+      await restoreAllCaches([mockTools[0]], false)
 
       expect(cache.restoreCache).toHaveBeenCalledWith(
-        ['/mock/mise/dir/bin'],
-        'custom-prefix-linux-x64-v2024.2.0-global'
+        ['/mock/mise/dir/bin/mise'],
+        'custom-prefix-linux-x64-2024.2.0-global'
       )
       expect(cache.restoreCache).toHaveBeenCalledWith(
         ['/mock/mise/dir/installs/node/18.17.0'],
@@ -177,21 +260,154 @@ describe('cache', () => {
       )
     })
 
-    it('should use default version when not specified', async () => {
-      vi.mocked(core.getInput).mockImplementation(name => {
-        switch (name) {
-          case 'cache_key_prefix':
-            return 'mise-v1'
-          default:
-            return ''
+    it('should restore backend tools from their install directory', async () => {
+      await restoreAllCaches(
+        [
+          createMockTool('npm:prettier', '3.3.3'),
+          createMockTool('ubi:a/b', '1.0.0')
+        ],
+        false
+      )
+
+      expect(cache.restoreCache).toHaveBeenCalledWith(
+        ['/mock/mise/dir/installs/npm-prettier/3.3.3'],
+        'mise-v1-linux-x64-tool-npm:prettier-3.3.3'
+      )
+      expect(cache.restoreCache).toHaveBeenCalledWith(
+        ['/mock/mise/dir/installs/ubi-a-b/1.0.0'],
+        'mise-v1-linux-x64-tool-ubi:a/b-1.0.0'
+      )
+    })
+
+    it('should restore tools later steps installed in an earlier run', async () => {
+      const prettier: Tool = {
+        name: 'npm-prettier',
+        version: '3.3.3',
+        source: 'installs'
+      }
+      const tiny = {
+        name: 'tiny',
+        repository: 'https://github.com/mise-plugins/mise-tiny.git',
+        ref: '0123456789abcdef'
+      }
+      vi.mocked(cache.restoreCache).mockImplementation(async (_, key) => {
+        if (key === 'mise-v1-linux-x64-manifest') return `${key}-1`
+        return key.includes('npm-prettier') ? key : undefined
+      })
+      vi.mocked(fs.promises.readFile).mockImplementation((async (
+        file: fs.PathLike
+      ) => {
+        if (file === '/mock/mise/dir/.mise-action-manifest.json') {
+          return JSON.stringify({
+            tools: [prettier, { ...mockTools[0], source: 'installs' }],
+            plugins: [tiny, { ...tiny, name: 'elixir' }]
+          })
         }
+        throw new Error('ENOENT')
+      }) as unknown as typeof fs.promises.readFile)
+
+      const result = await restoreAllCaches([mockTools[0]], false, [
+        { name: 'elixir', repository: 'https://github.com/org/elixir.git' }
+      ])
+
+      expect(cache.restoreCache).toHaveBeenCalledWith(
+        ['/mock/mise/dir/.mise-action-manifest.json'],
+        'mise-v1-linux-x64-manifest',
+        ['mise-v1-linux-x64-manifest-']
+      )
+      expect(cache.restoreCache).toHaveBeenCalledWith(
+        ['/mock/mise/dir/installs/npm-prettier/3.3.3'],
+        'mise-v1-linux-x64-tool-npm-prettier-3.3.3'
+      )
+      // node is discovered, so it is only restored once
+      expect(
+        vi
+          .mocked(cache.restoreCache)
+          .mock.calls.filter(
+            ([paths]) => paths[0] === '/mock/mise/dir/installs/node/18.17.0'
+          )
+      ).toHaveLength(1)
+      expect(cache.restoreCache).toHaveBeenCalledWith(
+        ['/mock/mise/dir/plugins/tiny'],
+        'mise-v1-linux-x64-plugin-tiny-mock-hash'
+      )
+      expect(crypto.createHash('sha256').update).toHaveBeenCalledWith(
+        'https://github.com/mise-plugins/mise-tiny.git#0123456789abcdef'
+      )
+      // elixir is declared, so only its [plugins] entry is restored
+      expect(result.pluginCacheResults).toHaveLength(2)
+      expect(result.manifest).toEqual({
+        tools: [prettier],
+        plugins: [tiny]
       })
+      expect(result.toolCacheResults).toHaveLength(2)
+      expect(result.totalTools).toBe(1)
+      expect(result.missingTools).toEqual([mockTools[0]])
+    })
+  })
+
+  describe('restoreMiseCache', () => {
+    it('should report a hit when the mise binary is restored', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(
+        'mise-v1-linux-x64-2024.1.1-global'
+      )
 
-      await restoreAllCaches([])
+      const result = await restoreMiseCache('2024.1.1')
 
+      expect(result).toBe('exact')
       expect(cache.restoreCache).toHaveBeenCalledWith(
-        ['/mock/mise/dir/bin'],
-        'mise-v1-linux-x64-latest-global'
+        ['/mock/mise/dir/bin/mise'],
+        'mise-v1-linux-x64-2024.1.1-global'
+      )
+    })
+
+    it('should report a miss when the mise binary is not cached', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+
+      const result = await restoreMiseCache('2024.1.1')
+
+      expect(result).toBe('miss')
+    })
+
+    it('should handle cache errors gracefully', async () => {
+      vi.mocked(cache.restoreCache).mockRejectedValue(
+        new Error('Cache service unavailable')
+      )
+
+      const result = await restoreMiseCache('2024.1.1')
+
+      expect(result).toBe('miss')
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to restore global mise cache')
+      )
+    })
+  })
+
+  describe('writeInstallMetadata', () => {
+    it('should record the install duration of successful installs', async () => {
+      await writeInstallMetadata([
+        { tool: mockTools[0], exitCode: 0, durationMs: 12000 },
+        { tool: mockTools[1], exitCode: 1, durationMs: 3000 }
+      ])
+
+      expect(fs.promises.writeFile).toHaveBeenCalledTimes(1)
+      expect(fs.promises.writeFile).toHaveBeenCalledWith(
+        '/mock/mise/dir/installs/node/18.17.0/.mise-action.json',
+        '{"installDurationMs":12000}'
+      )
+    })
+
+    it('should warn when the metadata cannot be written', async () => {
+      vi.mocked(fs.promises.writeFile).mockRejectedValueOnce(
+        new Error('ENOENT')
+      )
+
+      await writeInstallMetadata([
+        { tool: mockTools[0], exitCode: 0, durationMs: 12000 }
+      ])
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'Failed to write install metadata for node@18.17.0: Error: ENOENT'
       )
     })
   })
@@ -215,6 +431,25 @@ describe('cache', () => {
       ]
     })
 
+    const dirent = (name: string, isDirectory = true): fs.Dirent =>
+      ({ name, isDirectory: () => isDirectory }) as fs.Dirent
+
+    // Mock the contents of installs/, keyed by tool directory, and plugins/
+    const mockInstalls = (
+      installs: Record<string, fs.Dirent[]>,
+      plugins: fs.Dirent[] = []
+    ): void => {
+      vi.mocked(fs.promises.readdir).mockImplementation((async (
+        dir: fs.PathLike
+      ) => {
+        if (dir === '/mock/mise/dir/plugins') return plugins
+        if (dir === '/mock/mise/dir/installs') {
+          return Object.keys(installs).map(name => dirent(name))
+        }
+        return installs[path.basename(dir.toString())] || []
+      }) as unknown as typeof fs.promises.readdir)
+    }
+
     beforeEach(() => {
       vi.mocked(fs.existsSync).mockReturnValue(true)
       vi.mocked(cache.saveCache).mockResolvedValue(12345)
@@ -222,15 +457,129 @@ describe('cache', () => {
         if (name === 'cache_save') return true
         return false
       })
+      vi.mocked(core.getState).mockImplementation(name =>
+        name === 'MISE_VERSION' ? '2024.1.1' : ''
+      )
+      mockInstalls({
+        node: [dirent('18.17.0')],
+        python: [dirent('3.11.0')]
+      })
+    })
+
+    it('should save plugins and the mise cache directory unless restored', async () => {
+      const plugin = (name: string, hit: 'exact' | 'miss') => ({
+        plugin: { name, repository: `https://github.com/org/${name}.git` },
+        cacheKey: `mise-v1-linux-x64-plugin-${name}`,
+        cachePath: `/mock/mise/dir/plugins/${name}`,
+        hit
+      })
+
+      await saveAllCaches({
+        ...mockCacheResult,
+        globalCacheHit: true,
+        pluginCacheResults: [
+          plugin('elixir', 'miss'),
+          plugin('erlang', 'exact')
+        ],
+        miseCacheResult: {
+          cacheKey: 'mise-v1-linux-x64-cache-abc',
+          cachePath: '/tmp/test-home/.cache/mise',
+          hit: 'partial'
+        }
+      })
+
+      expect(cache.saveCache).toHaveBeenCalledWith(
+        ['/mock/mise/dir/plugins/elixir'],
+        'mise-v1-linux-x64-plugin-elixir'
+      )
+      expect(cache.saveCache).not.toHaveBeenCalledWith(
+        ['/mock/mise/dir/plugins/erlang'],
+        expect.anything()
+      )
+      expect(cache.saveCache).toHaveBeenCalledWith(
+        ['/tmp/test-home/.cache/mise'],
+        'mise-v1-linux-x64-cache-abc'
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        '✓ Saved cache of plugin elixir: mise-v1-linux-x64-plugin-elixir'
+      )
+    })
+
+    it('should save plugins installed without a [plugins] entry', async () => {
+      mockInstalls({}, [dirent('elixir'), dirent('tiny'), dirent('local')])
+      vi.mocked(exec.getExecOutput).mockImplementation(async (_, args) => {
+        const [, dir, ...command] = args ?? []
+        if (dir.endsWith('/local')) {
+          return { exitCode: 128, stdout: '', stderr: 'not a git repository' }
+        }
+        const stdout =
+          command[0] === 'remote'
+            ? 'https://github.com/mise-plugins/mise-tiny.git\n'
+            : '0123456789abcdef\n'
+        return { exitCode: 0, stdout, stderr: '' }
+      })
+
+      await saveAllCaches({
+        ...mockCacheResult,
+        globalCacheHit: true,
+        pluginCacheResults: [
+          {
+            plugin: {
+              name: 'elixir',
+              repository: 'https://github.com/org/elixir.git'
+            },
+            cacheKey: 'mise-v1-linux-x64-plugin-elixir',
+            cachePath: '/mock/mise/dir/plugins/elixir',
+            hit: 'exact'
+          }
+        ]
+      })
+
+      expect(exec.getExecOutput).toHaveBeenCalledWith(
+        'git',
+        ['-C', '/mock/mise/dir/plugins/tiny', 'remote', 'get-url', 'origin'],
+        { silent: true, ignoreReturnCode: true }
+      )
+      expect(crypto.createHash('sha256').update).toHaveBeenCalledWith(
+        'https://github.com/mise-plugins/mise-tiny.git#0123456789abcdef'
+      )
+      expect(cache.saveCache).toHaveBeenCalledWith(
+        ['/mock/mise/dir/plugins/tiny'],
+        'mise-v1-linux-x64-plugin-tiny-mock-hash'
+      )
+      expect(cache.saveCache).not.toHaveBeenCalledWith(
+        ['/mock/mise/dir/plugins/elixir'],
+        expect.anything()
+      )
+      expect(cache.saveCache).not.toHaveBeenCalledWith(
+        ['/mock/mise/dir/plugins/local'],
+        expect.anything()
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        'Skipping cache of plugin local, it is not a git checkout'
+      )
+      expect(fs.promises.writeFile).toHaveBeenCalledWith(
+        '/mock/mise/dir/.mise-action-manifest.json',
+        JSON.stringify({
+          tools: [],
+          plugins: [
+            {
+              name: 'tiny',
+              repository: 'https://github.com/mise-plugins/mise-tiny.git',
+              ref: '0123456789abcdef'
+            }
+          ]
+        })
+      )
     })
 
     it('should save global cache and new tool caches', async () => {
-      await saveAllCaches(mockCacheResult, [mockTools[0]])
+      await saveAllCaches(mockCacheResult)
 
       // Should save global cache
       expect(cache.saveCache).toHaveBeenCalledWith(
-        ['/mock/mise/dir/bin'],
-        'mise-v1-linux-x64-v2024.1.1-global'
+        ['/mock/mise/dir/bin/mise'],
+        'mise-v1-linux-x64-2024.1.1-global'
       )
 
       // Should save new tool cache
@@ -246,10 +595,24 @@ describe('cache', () => {
       )
     })
 
+    it('should skip the global cache when the mise version was not resolved', async () => {
+      vi.mocked(core.getState).mockReturnValue('')
+
+      await saveAllCaches(mockCacheResult)
+
+      expect(cache.saveCache).not.toHaveBeenCalledWith(
+        ['/mock/mise/dir/bin/mise'],
+        expect.any(String)
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        'mise version was not resolved, skipping global mise cache'
+      )
+    })
+
     it('should skip saving when cache_save is disabled', async () => {
       vi.mocked(core.getBooleanInput).mockReturnValue(false)
 
-      await saveAllCaches(mockCacheResult, [mockTools[0]])
+      await saveAllCaches(mockCacheResult)
 
       expect(cache.saveCache).not.toHaveBeenCalled()
       expect(core.info).toHaveBeenCalledWith(
@@ -269,12 +632,13 @@ describe('cache', () => {
           }
         ]
       })
+      mockInstalls({ node: [dirent('18.17.0')] })
 
-      await saveAllCaches(cacheResultWithGlobalHit, [mockTools[0]])
+      await saveAllCaches(cacheResultWithGlobalHit)
 
       // Should not save global cache since it was hit
       expect(cache.saveCache).not.toHaveBeenCalledWith(
-        ['/mock/mise/dir/bin'],
+        ['/mock/mise/dir/bin/mise'],
         expect.any(String)
       )
 
@@ -285,19 +649,16 @@ describe('cache', () => {
       )
     })
 
-    it('should handle missing cache paths gracefully', async () => {
+    it('should handle a missing installs directory gracefully', async () => {
       vi.mocked(fs.existsSync).mockReturnValue(false)
 
-      await saveAllCaches(mockCacheResult, [mockTools[0]])
+      await saveAllCaches(mockCacheResult)
 
       expect(core.warning).toHaveBeenCalledWith(
         expect.stringContaining('Global mise path does not exist')
       )
-      expect(core.warning).toHaveBeenCalledWith(
-        expect.stringContaining(
-          'Tool cache path does not exist for node@18.17.0'
-        )
-      )
+      expect(fs.promises.readdir).not.toHaveBeenCalled()
+      expect(cache.saveCache).not.toHaveBeenCalled()
     })
 
     it('should handle cache save errors gracefully', async () => {
@@ -305,7 +666,7 @@ describe('cache', () => {
         new Error('Cache save failed')
       )
 
-      await saveAllCaches(mockCacheResult, [mockTools[0]])
+      await saveAllCaches(mockCacheResult)
 
       expect(core.warning).toHaveBeenCalledWith(
         expect.stringContaining('Failed to save global mise cache')
@@ -315,15 +676,14 @@ describe('cache', () => {
     it('should handle cache already exists scenario', async () => {
       vi.mocked(cache.saveCache).mockResolvedValue(-1)
 
-      await saveAllCaches(mockCacheResult, [mockTools[0]])
+      await saveAllCaches(mockCacheResult)
 
       expect(core.info).toHaveBeenCalledWith(
         expect.stringContaining('Global mise cache already exists')
       )
     })
 
-    it('should only save caches for newly installed tools', async () => {
-      const installedTools = [mockTools[0]] // Only node was installed
+    it('should only save caches for tools that are installed', async () => {
       const allToolsResult = createMockCacheResult({
         globalCacheHit: false,
         toolCacheResults: [
@@ -341,8 +701,9 @@ describe('cache', () => {
           }
         ]
       })
+      mockInstalls({ node: [dirent('18.17.0')] }) // Only node was installed
 
-      await saveAllCaches(allToolsResult, installedTools)
+      await saveAllCaches(allToolsResult)
 
       // Should only save cache for installed tool (node)
       expect(cache.saveCache).toHaveBeenCalledWith(
@@ -356,6 +717,89 @@ describe('cache', () => {
         expect.any(String)
       )
     })
+
+    it('should save tools installed after restoring', async () => {
+      mockInstalls({
+        node: [dirent('18.17.0')],
+        python: [dirent('3.11.0')],
+        'npm-prettier': [dirent('3.3.3')]
+      })
+
+      await saveAllCaches(mockCacheResult)
+
+      expect(cache.saveCache).toHaveBeenCalledWith(
+        ['/mock/mise/dir/installs/npm-prettier/3.3.3'],
+        'mise-v1-linux-x64-tool-npm-prettier-3.3.3'
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        'Found npm-prettier@3.3.3 installed after restoring'
+      )
+    })
+
+    it('should list tools installed after restoring in the cache manifest', async () => {
+      mockInstalls({
+        node: [dirent('18.17.0')],
+        'npm-prettier': [dirent('3.3.3')]
+      })
+
+      await saveAllCaches(mockCacheResult)
+
+      expect(fs.promises.writeFile).toHaveBeenCalledWith(
+        '/mock/mise/dir/.mise-action-manifest.json',
+        JSON.stringify({
+          tools: [
+            { name: 'npm-prettier', version: '3.3.3', source: 'installs' }
+          ],
+          plugins: []
+        })
+      )
+      expect(cache.saveCache).toHaveBeenCalledWith(
+        ['/mock/mise/dir/.mise-action-manifest.json'],
+        expect.stringMatching(/^mise-v1-linux-x64-manifest-\d+$/)
+      )
+    })
+
+    it('should not save an unchanged cache manifest', async () => {
+      const prettier: Tool = {
+        name: 'npm-prettier',
+        version: '3.3.3',
+        source: 'installs'
+      }
+      mockInstalls({ 'npm-prettier': [dirent('3.3.3')] })
+
+      await saveAllCaches({
+        ...mockCacheResult,
+        toolCacheResults: [
+          {
+            tool: prettier,
+            cacheKey: 'mise-v1-linux-x64-tool-npm-prettier-3.3.3',
+            cachePath: '/mock/mise/dir/installs/npm-prettier/3.3.3',
+            isRestored: true
+          }
+        ],
+        manifest: { tools: [prettier], plugins: [] }
+      })
+
+      expect(cache.saveCache).not.toHaveBeenCalledWith(
+        ['/mock/mise/dir/.mise-action-manifest.json'],
+        expect.anything()
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        'Cache manifest is unchanged, skipping'
+      )
+    })
+
+    it('should skip version symlinks and metadata files', async () => {
+      mockInstalls({
+        node: [dirent('18.17.0'), dirent('18', false), dirent('.mise.backend')],
+        '.cache': [dirent('data')]
+      })
+
+      await saveAllCaches(mockCacheResult)
+
+      // Global cache and node@18.17.0 only
+      expect(cache.saveCache).toHaveBeenCalledTimes(2)
+    })
   })
 
   describe('cache key generation', () => {
@@ -374,59 +818,32 @@ describe('cache', () => {
           isMusl: false
         })
 
-      await restoreAllCaches([mockTools[0]])
-      await restoreAllCaches([mockTools[0]])
+      await restoreAllCaches([mockTools[0]], false)
+      await restoreAllCaches([mockTools[0]], false)
 
       const calls = vi.mocked(cache.restoreCache).mock.calls
+      // Each run restores the tool, the mise cache directory and the manifest
       expect(calls[0][1]).toContain('linux-x64')
-      expect(calls[2][1]).toContain('linux-arm64')
+      expect(calls[3][1]).toContain('linux-arm64')
     })
 
     it('should generate different keys for different versions', async () => {
-      // Clear previous mocks
-      vi.clearAllMocks()
-
-      vi.mocked(core.getInput).mockImplementationOnce(name => {
-        switch (name) {
-          case 'version':
-            return 'v2024.1.0'
-          case 'cache_key_prefix':
-            return 'mise-v1'
-          default:
-            return ''
-        }
-      })
-
-      await restoreAllCaches([])
-
-      // Clear mocks and setup second call
-      vi.clearAllMocks()
-      vi.mocked(core.getInput).mockImplementationOnce(name => {
-        switch (name) {
-          case 'version':
-            return 'v2024.2.0'
-          case 'cache_key_prefix':
-            return 'mise-v1'
-          default:
-            return ''
-        }
-      })
-
-      await restoreAllCaches([])
+      await restoreMiseCache('2024.1.0')
+      await restoreMiseCache('2024.2.0')
 
       const calls = vi.mocked(cache.restoreCache).mock.calls
-      expect(calls[0][1]).toContain('v2024.2.0')
+      expect(calls[0][1]).toContain('2024.1.0')
+      expect(calls[1][1]).toContain('2024.2.0')
     })
   })
 
-  describe('logging and outputs', () => {
+  describe('logging', () => {
     it('should log detailed cache results', async () => {
       vi.mocked(cache.restoreCache)
-        .mockResolvedValueOnce('global-key')
-        .mockResolvedValueOnce('tool-key')
+        .mockResolvedValueOnce('mise-v1-linux-x64-tool-node-18.17.0')
         .mockResolvedValueOnce(undefined)
 
-      await restoreAllCaches([mockTools[0], mockTools[1]])
+      await restoreAllCaches([mockTools[0], mockTools[1]], true)
 
       expect(core.info).toHaveBeenCalledWith(
         expect.stringContaining('Cache Results Summary')
@@ -441,21 +858,5 @@ describe('cache', () => {
         expect.stringContaining('Cache efficiency: 50.0%')
       )
     })
-
-    it('should set all required outputs', async () => {
-      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
-
-      await restoreAllCaches(mockTools)
-
-      expect(core.setOutput).toHaveBeenCalledWith('cache-hit', false)
-      expect(core.setOutput).toHaveBeenCalledWith('global-cache-hit', false)
-      expect(core.setOutput).toHaveBeenCalledWith('partial-cache-hit', false)
-      expect(core.setOutput).toHaveBeenCalledWith(
-        'tools-cache-hit-ratio',
-        '0/3'
-      )
-      expect(core.setOutput).toHaveBeenCalledWith('cached-tools-count', 0)
-      expect(core.setOutput).toHaveBeenCalledWith('missing-tools-count', 3)
-    })
   })
 })
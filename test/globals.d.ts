@@ -4,10 +4,12 @@ declare global {
   function createMockTool(
     name: string,
     version: string,
-    source?: 'mise.toml' | '.tool-versions' | 'install_args'
+    source?: Tool['source']
   ): Tool
 
   function createMockCacheResult(overrides?: Partial<CacheResult>): CacheResult
+
+  function createTar(files: Record<string, string>): Buffer
 }
 
 export {}
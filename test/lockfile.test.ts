@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import { applyLockfile, lockfilePath } from '../src/lockfile'
+import * as utils from '../src/utils'
+
+vi.mock('../src/utils')
+
+describe('lockfile', () => {
+  const mockLockfile = (content: string | null): void => {
+    vi.mocked(fs.existsSync).mockReturnValue(content !== null)
+    vi.mocked(fs.promises.readFile).mockResolvedValue(content ?? '')
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    vi.mocked(utils.getSystemInfo).mockResolvedValue({
+      platform: 'linux',
+      arch: 'x64',
+      target: 'linux-x64',
+      isMusl: false
+    })
+    vi.mocked(core.getBooleanInput).mockReturnValue(false)
+  })
+
+  describe('lockfilePath', () => {
+    it('should replace the config file extension with .lock', () => {
+      expect(lockfilePath('/repo/mise.toml')).toBe('/repo/mise.lock')
+      expect(lockfilePath('/repo/mise.local.toml')).toBe(
+        '/repo/mise.local.lock'
+      )
+      expect(lockfilePath('/repo/.config/mise.toml')).toBe(
+        '/repo/.config/mise.lock'
+      )
+    })
+  })
+
+  describe('applyLockfile', () => {
+    it('should use the locked version, backend and platform checksum', async () => {
+      mockLockfile(`
+[[tools.node]]
+version = "20.11.1"
+backend = "core:node"
+
+[tools.node.platforms.linux-x64]
+checksum = "sha256:abc"
+url = "https://nodejs.org/dist/v20.11.1/node-v20.11.1-linux-x64.tar.gz"
+
+[tools.node.platforms.macos-arm64]
+checksum = "sha256:def"
+      `)
+
+      const result = await applyLockfile(
+        [createMockTool('node', '20')],
+        '/repo/mise.toml'
+      )
+
+      expect(fs.promises.readFile).toHaveBeenCalledWith(
+        '/repo/mise.lock',
+        'utf8'
+      )
+      expect(result).toEqual([
+        {
+          name: 'node',
+          version: '20.11.1',
+          source: 'mise.toml',
+          requestedVersion: '20',
+          lock: {
+            backend: 'core:node',
+            checksum: 'sha256:abc',
+            url: 'https://nodejs.org/dist/v20.11.1/node-v20.11.1-linux-x64.tar.gz'
+          }
+        }
+      ])
+    })
+
+    it('should support the older checksums table', async () => {
+      mockLockfile(`
+[tools.python]
+version = "3.12.7"
+backend = "core:python"
+
+[tools.python.checksums]
+"python-3.12.7-x86_64-unknown-linux-gnu.tar.gz" = "sha256:123"
+      `)
+
+      const result = await applyLockfile(
+        [createMockTool('python', '3.12.7')],
+        '/repo/mise.toml'
+      )
+
+      expect(result).toEqual([
+        {
+          name: 'python',
+          version: '3.12.7',
+          source: 'mise.toml',
+          lock: {
+            backend: 'core:python',
+            checksum: 'python-3.12.7-x86_64-unknown-linux-gnu.tar.gz=sha256:123'
+          }
+        }
+      ])
+    })
+
+    it('should pick the entry matching each requested version', async () => {
+      mockLockfile(`
+[[tools.node]]
+version = "20.11.1"
+
+[[tools.node]]
+version = "22.11.0"
+
+[[tools.go]]
+version = "1.23.2"
+      `)
+
+      const result = await applyLockfile(
+        [
+          createMockTool('node', '22'),
+          createMockTool('node', '18'),
+          createMockTool('go', 'latest')
+        ],
+        '/repo/mise.toml'
+      )
+
+      expect(result.map(tool => tool.version)).toEqual([
+        '22.11.0',
+        '18',
+        '1.23.2'
+      ])
+    })
+
+    it('should leave tools unchanged without a lockfile', async () => {
+      mockLockfile(null)
+
+      const tools = [createMockTool('node', '20')]
+      const result = await applyLockfile(tools, '/repo/mise.toml')
+
+      expect(result).toEqual(tools)
+      expect(fs.promises.readFile).not.toHaveBeenCalled()
+    })
+
+    it('should warn and leave tools unchanged for a malformed lockfile', async () => {
+      mockLockfile('[[tools.node]\nversion =')
+
+      const tools = [createMockTool('node', '20')]
+      const result = await applyLockfile(tools, '/repo/mise.toml')
+
+      expect(result).toEqual(tools)
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to parse /repo/mise.lock')
+      )
+    })
+
+    it('should fail when locked is set and a tool is not locked', async () => {
+      vi.mocked(core.getBooleanInput).mockImplementation(
+        name => name === 'locked'
+      )
+      mockLockfile(`
+[[tools.node]]
+version = "20.11.1"
+      `)
+
+      await expect(
+        applyLockfile(
+          [createMockTool('node', '20'), createMockTool('python', '3.12')],
+          '/repo/mise.toml'
+        )
+      ).rejects.toThrow(
+        'Tools in /repo/mise.toml are missing from /repo/mise.lock: python@3.12'
+      )
+    })
+
+    it('should fail when locked is set and there is no lockfile', async () => {
+      vi.mocked(core.getBooleanInput).mockImplementation(
+        name => name === 'locked'
+      )
+      mockLockfile(null)
+
+      await expect(
+        applyLockfile([createMockTool('node', '20')], '/repo/mise.toml')
+      ).rejects.toThrow('missing from /repo/mise.lock: node@20')
+    })
+  })
+})
@@ -1,15 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import * as core from '@actions/core'
+import * as fs from 'fs'
 import { run } from '../src/main'
 import * as environment from '../src/environment'
 import * as setup from '../src/setup'
 import * as tools from '../src/tools'
 import * as cache from '../src/cache'
+import * as version from '../src/version'
 
 vi.mock('../src/environment')
 vi.mock('../src/setup')
 vi.mock('../src/tools')
 vi.mock('../src/cache')
+vi.mock('../src/version')
 
 describe('main', () => {
   const mockTools = [
@@ -65,16 +68,26 @@ describe('main', () => {
     })
 
     // Setup default successful mocks
+    vi.mocked(version.resolveMiseVersion).mockImplementation(async v =>
+      (v || '2025.1.0').replace(/^v/, '')
+    )
     vi.mocked(tools.getAllTools).mockResolvedValue(mockTools)
+    vi.mocked(tools.getAllPlugins).mockResolvedValue([])
+    vi.mocked(tools.resolveToolVersions).mockImplementation(async t => t)
+    vi.mocked(cache.restoreMiseCache).mockResolvedValue('miss')
     vi.mocked(cache.restoreAllCaches).mockResolvedValue(mockCacheResult)
+    vi.mocked(setup.findPreinstalledMise).mockResolvedValue(undefined)
     vi.mocked(setup.setupMise).mockResolvedValue()
     vi.mocked(setup.setupToolVersions).mockResolvedValue()
     vi.mocked(setup.setupMiseToml).mockResolvedValue()
     vi.mocked(setup.testMise).mockResolvedValue(0)
     vi.mocked(setup.trustCurrentDirectory).mockResolvedValue(0)
-    vi.mocked(setup.installSpecificTools).mockResolvedValue([mockTools[1]])
+    vi.mocked(setup.installSpecificTools).mockResolvedValue({
+      installedTools: [mockTools[1]],
+      failedTools: [],
+      installs: []
+    })
     vi.mocked(setup.listTools).mockResolvedValue(0)
-    vi.mocked(cache.saveAllCaches).mockResolvedValue()
     vi.mocked(environment.setupEnvironmentVariables).mockResolvedValue()
   })
 
@@ -84,17 +97,20 @@ describe('main', () => {
 
       // Verify execution order and calls
       expect(tools.getAllTools).toHaveBeenCalledOnce()
-      expect(cache.restoreAllCaches).toHaveBeenCalledWith(mockTools)
+      expect(cache.restoreMiseCache).toHaveBeenCalledOnce()
       expect(setup.setupMise).toHaveBeenCalledOnce()
+      expect(tools.resolveToolVersions).toHaveBeenCalledWith(mockTools)
+      expect(cache.restoreAllCaches).toHaveBeenCalledWith(mockTools, false, [])
       expect(environment.setupEnvironmentVariables).toHaveBeenCalledOnce()
       expect(setup.trustCurrentDirectory).toHaveBeenCalledOnce()
       expect(setup.testMise).toHaveBeenCalledOnce()
       expect(setup.installSpecificTools).toHaveBeenCalledWith(
         mockCacheResult.missingTools
       )
-      expect(cache.saveAllCaches).toHaveBeenCalledWith(mockCacheResult, [
-        mockTools[1]
-      ])
+      expect(core.saveState).toHaveBeenCalledWith(
+        'CACHE_RESULT',
+        JSON.stringify(mockCacheResult)
+      )
       expect(setup.listTools).toHaveBeenCalledOnce()
 
       expect(core.setFailed).not.toHaveBeenCalled()
@@ -114,7 +130,6 @@ describe('main', () => {
 
       // No tools to install, so installSpecificTools shouldn't be called
       expect(setup.installSpecificTools).not.toHaveBeenCalled()
-      expect(cache.saveAllCaches).not.toHaveBeenCalled() // No tools installed, so no cache saving
       expect(core.setFailed).not.toHaveBeenCalled()
     })
 
@@ -131,7 +146,6 @@ describe('main', () => {
 
       // No missing tools, so installSpecificTools shouldn't be called
       expect(setup.installSpecificTools).not.toHaveBeenCalled()
-      expect(cache.saveAllCaches).not.toHaveBeenCalled() // No tools installed
       expect(core.info).toHaveBeenCalledWith(
         expect.stringContaining('All tools were restored from cache')
       )
@@ -147,6 +161,83 @@ describe('main', () => {
       expect(cache.restoreAllCaches).not.toHaveBeenCalled()
     })
 
+    it('should handle mise cache restore failure', async () => {
+      const cacheError = new Error('Cache restore failed')
+      vi.mocked(cache.restoreMiseCache).mockRejectedValue(cacheError)
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(cacheError.message)
+      expect(setup.setupMise).not.toHaveBeenCalled()
+    })
+
+    it('should resolve the mise directory before restoring the cache', async () => {
+      await run()
+
+      expect(environment.setupMiseDir).toHaveBeenCalled()
+      expect(
+        vi.mocked(environment.setupMiseDir).mock.invocationCallOrder[0]
+      ).toBeLessThan(
+        vi.mocked(cache.restoreMiseCache).mock.invocationCallOrder[0]
+      )
+    })
+
+    it('should set every output even when the run fails', async () => {
+      vi.mocked(setup.setupMise).mockRejectedValue(new Error('HTTP 503'))
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledTimes(17)
+      expect(core.setOutput).toHaveBeenCalledWith('retry-count', 0)
+      expect(core.setOutput).toHaveBeenCalledWith('installed-tools', '[]')
+    })
+
+    it('should write the run report even when the run fails', async () => {
+      vi.mocked(setup.setupMise).mockRejectedValue(new Error('HTTP 503'))
+
+      await run()
+
+      expect(fs.promises.writeFile).toHaveBeenCalledWith(
+        '/tmp/test-temp/mise-report.json',
+        expect.stringContaining('"success": false')
+      )
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'report-path',
+        '/tmp/test-temp/mise-report.json'
+      )
+    })
+
+    it('should write the job summary even when the run fails', async () => {
+      vi.mocked(core.getBooleanInput).mockImplementation(
+        name => name === 'job_summary'
+      )
+      vi.mocked(setup.setupMise).mockRejectedValue(new Error('HTTP 503'))
+
+      await run()
+
+      expect(core.summary.addHeading).toHaveBeenCalledWith('mise ✗', 2)
+      expect(core.summary.addRaw).toHaveBeenCalledWith(
+        '<p><b>Error:</b> HTTP 503</p>',
+        true
+      )
+      expect(core.summary.write).toHaveBeenCalled()
+    })
+
+    it('should set the cache and install outputs', async () => {
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('cache-hit', false)
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'tools-cache-hit-ratio',
+        '1/2'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'installed-tools',
+        '["python@3.11.0"]'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('failed-tools', '[]')
+    })
+
     it('should handle cache restore failure', async () => {
       const cacheError = new Error('Cache restore failed')
       vi.mocked(cache.restoreAllCaches).mockRejectedValue(cacheError)
@@ -154,7 +245,140 @@ describe('main', () => {
       await run()
 
       expect(core.setFailed).toHaveBeenCalledWith(cacheError.message)
+      expect(setup.installSpecificTools).not.toHaveBeenCalled()
+    })
+
+    it('should skip mise setup when restored from the global cache', async () => {
+      vi.mocked(cache.restoreMiseCache).mockResolvedValue('exact')
+
+      await run()
+
       expect(setup.setupMise).not.toHaveBeenCalled()
+      expect(core.addPath).toHaveBeenCalledWith(expect.stringContaining('bin'))
+      expect(core.setOutput).toHaveBeenCalledWith('mise-source', 'cache')
+      expect(cache.restoreAllCaches).toHaveBeenCalledWith(mockTools, true, [])
+    })
+
+    it('should read the mise version from version_file without a version input', async () => {
+      vi.mocked(core.getInput).mockReturnValue('')
+      vi.mocked(version.readVersionFile).mockResolvedValue('>=2025.1.0')
+
+      await run()
+
+      expect(version.resolveMiseVersion).toHaveBeenCalledWith('>=2025.1.0')
+    })
+
+    it('should use a preinstalled mise instead of setting it up', async () => {
+      vi.mocked(setup.findPreinstalledMise).mockResolvedValue(
+        '/usr/local/bin/mise'
+      )
+
+      await run()
+
+      expect(setup.findPreinstalledMise).toHaveBeenCalledWith('v2024.1.1')
+      expect(cache.restoreMiseCache).not.toHaveBeenCalled()
+      expect(setup.setupMise).not.toHaveBeenCalled()
+      expect(core.addPath).toHaveBeenCalledWith('/usr/local/bin')
+      expect(core.saveState).not.toHaveBeenCalledWith(
+        'MISE_VERSION',
+        expect.anything()
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('mise-source', 'preinstalled')
+      expect(cache.restoreAllCaches).toHaveBeenCalledWith(mockTools, false, [])
+    })
+
+    it('should export the mise env when export_env is set', async () => {
+      vi.mocked(core.getBooleanInput).mockImplementation(
+        name => name === 'install' || name === 'export_env'
+      )
+
+      await run()
+
+      expect(environment.exportMiseEnv).toHaveBeenCalledAfter(
+        vi.mocked(setup.installSpecificTools)
+      )
+    })
+
+    it('should not export the mise env by default', async () => {
+      await run()
+
+      expect(environment.exportMiseEnv).not.toHaveBeenCalled()
+    })
+
+    it('should pass url_replacements on to the environment', async () => {
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'url_replacements'
+          ? 'https://github.com=https://nexus.example.com/github\nhttps://nodejs.org/dist = https://nexus.example.com/node\n'
+          : ''
+      )
+
+      await run()
+
+      expect(environment.setupEnvironmentVariables).toHaveBeenCalledWith(
+        expect.objectContaining({
+          urlReplacements: {
+            'https://github.com': 'https://nexus.example.com/github',
+            'https://nodejs.org/dist': 'https://nexus.example.com/node'
+          }
+        })
+      )
+    })
+
+    it('should fail on invalid url_replacements', async () => {
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'url_replacements' ? 'https://github.com' : ''
+      )
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Invalid url_replacements line: https://github.com, expected from=to'
+      )
+    })
+
+    it('should key the global cache by the resolved mise version', async () => {
+      await run()
+
+      expect(cache.restoreMiseCache).toHaveBeenCalledWith('2024.1.1')
+      expect(core.saveState).toHaveBeenCalledWith('MISE_VERSION', '2024.1.1')
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'resolved-mise-version',
+        '2024.1.1'
+      )
+    })
+
+    it('should restore tool caches with resolved versions', async () => {
+      const resolvedTools = [
+        { ...mockTools[0], version: '18.20.4', requestedVersion: '18' },
+        mockTools[1]
+      ]
+      vi.mocked(tools.resolveToolVersions).mockResolvedValue(resolvedTools)
+
+      await run()
+
+      expect(cache.restoreAllCaches).toHaveBeenCalledWith(
+        resolvedTools,
+        false,
+        []
+      )
+      expect(setup.testMise).toHaveBeenCalledBefore(
+        vi.mocked(tools.resolveToolVersions)
+      )
+    })
+
+    it('should not restore tool caches when cache is disabled', async () => {
+      vi.mocked(core.getBooleanInput).mockImplementation(
+        name => name === 'install'
+      )
+
+      await run()
+
+      expect(cache.restoreMiseCache).not.toHaveBeenCalled()
+      expect(cache.restoreAllCaches).not.toHaveBeenCalled()
+      expect(setup.installSpecificTools).toHaveBeenCalledWith(mockTools)
+      expect(core.setOutput).toHaveBeenCalledTimes(17)
+      expect(core.setOutput).toHaveBeenCalledWith('cached-tools-count', 0)
+      expect(core.setOutput).toHaveBeenCalledWith('missing-tools-count', 2)
     })
 
     it('should handle mise setup failure', async () => {
@@ -174,7 +398,6 @@ describe('main', () => {
       await run()
 
       expect(core.setFailed).toHaveBeenCalledWith(installError.message)
-      expect(cache.saveAllCaches).not.toHaveBeenCalled()
     })
 
     it('should handle environment setup failure', async () => {
@@ -188,26 +411,121 @@ describe('main', () => {
       expect(core.setFailed).toHaveBeenCalledWith(envError.message)
     })
 
-    it('should handle cache save failure gracefully', async () => {
-      // Force cache saving by having installed tools
-      vi.mocked(setup.installSpecificTools).mockResolvedValue([mockTools[1]])
-      const saveError = new Error('Cache save failed')
-      vi.mocked(cache.saveAllCaches).mockRejectedValue(saveError)
-
+    it('should leave saving caches to the post step', async () => {
       await run()
 
-      // Since we're mocking saveAllCaches to throw, main will catch it and call setFailed
-      expect(core.setFailed).toHaveBeenCalledWith(saveError.message)
+      expect(cache.saveAllCaches).not.toHaveBeenCalled()
+      expect(core.saveState).toHaveBeenCalledWith('isPost', 'true')
+      expect(core.saveState).toHaveBeenCalledWith('RUN_SUCCEEDED', 'true')
     })
 
-    it('should continue execution even if some tools fail to install', async () => {
-      // Simulate partial installation success
-      vi.mocked(setup.installSpecificTools).mockResolvedValue([]) // No tools successfully installed
+    it('should not mark a failed run as succeeded', async () => {
+      vi.mocked(setup.installSpecificTools).mockRejectedValue(
+        new Error('Installation failed')
+      )
 
       await run()
 
-      expect(cache.saveAllCaches).not.toHaveBeenCalled() // No tools installed
-      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(core.saveState).toHaveBeenCalledWith(
+        'CACHE_RESULT',
+        JSON.stringify(mockCacheResult)
+      )
+      expect(core.saveState).not.toHaveBeenCalledWith('RUN_SUCCEEDED', 'true')
+    })
+
+    describe('when tools fail to install', () => {
+      const pythonFailure = {
+        tool: mockTools[1],
+        exitCode: 1,
+        output: ['mise ERROR failed to install python@3.11.0', 'HTTP 404']
+      }
+
+      const mockFailures = (...failedTools: (typeof pythonFailure)[]): void => {
+        vi.mocked(setup.installSpecificTools).mockResolvedValue({
+          installedTools: [],
+          failedTools,
+          installs: []
+        })
+      }
+
+      const mockPolicy = (policy: string): void => {
+        vi.mocked(core.getInput).mockImplementation(name =>
+          name === 'on_install_failure' ? policy : ''
+        )
+      }
+
+      it('should fail listing every failed tool by default', async () => {
+        mockFailures(pythonFailure, {
+          tool: mockTools[0],
+          exitCode: null,
+          output: ['Error: spawn mise ENOENT']
+        })
+
+        await run()
+
+        expect(core.setFailed).toHaveBeenCalledWith(
+          'Failed to install 2 tools:\n' +
+            '  - python@3.11.0 (exit code 1)\n' +
+            '    mise ERROR failed to install python@3.11.0\n' +
+            '    HTTP 404\n' +
+            '  - node@18.17.0 (mise failed to run)\n' +
+            '    Error: spawn mise ENOENT'
+        )
+        expect(core.saveState).not.toHaveBeenCalledWith('RUN_SUCCEEDED', 'true')
+      })
+
+      it('should only warn about optional tools', async () => {
+        mockFailures({
+          ...pythonFailure,
+          tool: { ...mockTools[1], optional: true }
+        })
+
+        await run()
+
+        expect(core.setFailed).not.toHaveBeenCalled()
+        expect(core.warning).toHaveBeenCalledWith(
+          expect.stringContaining(
+            'Failed to install python@3.11.0 (exit code 1)'
+          )
+        )
+      })
+
+      it('should continue with warnings when on_install_failure is warn', async () => {
+        mockPolicy('warn')
+        mockFailures(pythonFailure)
+
+        await run()
+
+        expect(core.setFailed).not.toHaveBeenCalled()
+        expect(core.warning).toHaveBeenCalledWith(
+          expect.stringContaining(
+            'Failed to install python@3.11.0 (exit code 1)'
+          )
+        )
+      })
+
+      it('should stay quiet when on_install_failure is ignore', async () => {
+        mockPolicy('ignore')
+        mockFailures(pythonFailure)
+
+        await run()
+
+        expect(core.setFailed).not.toHaveBeenCalled()
+        expect(core.warning).not.toHaveBeenCalledWith(
+          expect.stringContaining('Failed to install')
+        )
+      })
+
+      it('should reject an invalid on_install_failure', async () => {
+        mockPolicy('retry')
+
+        await run()
+
+        expect(core.setFailed).toHaveBeenCalledWith(
+          'Invalid on_install_failure value: retry, expected fail, warn or ignore'
+        )
+        expect(setup.setupMise).not.toHaveBeenCalled()
+      })
     })
 
     it('should log execution summary', async () => {
@@ -240,7 +558,6 @@ describe('main', () => {
 
       // No missing tools, so installation shouldn't be called
       expect(setup.installSpecificTools).not.toHaveBeenCalled()
-      expect(cache.saveAllCaches).not.toHaveBeenCalled() // No new tools installed
       expect(core.info).toHaveBeenCalledWith(
         expect.stringContaining('All tools were restored from cache')
       )
@@ -254,7 +571,11 @@ describe('main', () => {
         missingTools: [mockTools[0], mockTools[1]]
       })
       vi.mocked(cache.restoreAllCaches).mockResolvedValue(partialCacheResult)
-      vi.mocked(setup.installSpecificTools).mockResolvedValue([mockTools[0]]) // Only one installed successfully
+      vi.mocked(setup.installSpecificTools).mockResolvedValue({
+        installedTools: [mockTools[0]],
+        failedTools: [],
+        installs: []
+      })
 
       await run()
 
@@ -262,9 +583,10 @@ describe('main', () => {
         mockTools[0],
         mockTools[1]
       ])
-      expect(cache.saveAllCaches).toHaveBeenCalledWith(partialCacheResult, [
-        mockTools[0]
-      ])
+      expect(core.saveState).toHaveBeenCalledWith(
+        'CACHE_RESULT',
+        JSON.stringify(partialCacheResult)
+      )
       expect(core.info).toHaveBeenCalledWith(
         expect.stringContaining('⬇️  Tools installed: 1')
       )
@@ -304,8 +626,8 @@ describe('main', () => {
 
       expect(resolveOrder).toEqual([
         'getAllTools',
-        'restoreAllCaches',
-        'setupMise'
+        'setupMise',
+        'restoreAllCaches'
       ])
     })
 
@@ -320,7 +642,6 @@ describe('main', () => {
       expect(cache.restoreAllCaches).toHaveBeenCalled() // This should succeed
       expect(setup.setupMise).toHaveBeenCalled() // This should succeed
       expect(environment.setupEnvironmentVariables).toHaveBeenCalled() // This happens before the error
-      expect(cache.saveAllCaches).not.toHaveBeenCalled() // This should not be called
       expect(core.setFailed).toHaveBeenCalledWith(
         'Installation failed after cache restore'
       )
@@ -350,6 +671,49 @@ describe('main', () => {
       )
     })
 
+    it('should log the time saved and phase timings in summary', async () => {
+      vi.mocked(cache.restoreAllCaches).mockResolvedValue({
+        ...mockCacheResult,
+        toolCacheResults: [
+          {
+            ...mockCacheResult.toolCacheResults[0],
+            previousInstallDurationMs: 12000
+          },
+          mockCacheResult.toolCacheResults[1]
+        ]
+      })
+
+      await run()
+
+      expect(core.info).toHaveBeenCalledWith(
+        '  ⏱️  Estimated time saved: ~12.0s'
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        expect.stringContaining('⏲️  Phase timings:')
+      )
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'estimated-time-saved-ms',
+        12000
+      )
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'phase-timings',
+        expect.stringContaining('"discovery":')
+      )
+    })
+
+    it('should record install durations for the tool caches', async () => {
+      const installs = [{ tool: mockTools[1], exitCode: 0, durationMs: 4000 }]
+      vi.mocked(setup.installSpecificTools).mockResolvedValue({
+        installedTools: [mockTools[1]],
+        failedTools: [],
+        installs
+      })
+
+      await run()
+
+      expect(cache.writeInstallMetadata).toHaveBeenCalledWith(installs)
+    })
+
     it('should not log execution summary on failure', async () => {
       vi.mocked(tools.getAllTools).mockRejectedValue(new Error('Test error'))
 
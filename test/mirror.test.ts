@@ -0,0 +1,136 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  beforeEach
+} from 'vitest'
+import * as core from '@actions/core'
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as http from 'http'
+import * as os from 'os'
+import * as path from 'path'
+import * as zlib from 'zlib'
+import { AddressInfo } from 'net'
+import { setupMise } from '../src/setup'
+import { fetchText, getSystemInfo, latestMiseVersion } from '../src/utils'
+
+// Install from a real download, checksum and archive
+vi.unmock('fs')
+vi.unmock('os')
+vi.unmock('crypto')
+vi.mock('../src/archive', async () => ({
+  ...(await vi.importActual<typeof import('../src/archive')>('../src/archive')),
+  zstdSupported: () => false
+}))
+
+// Serves mise releases like an internal mirror would, without github.com
+describe('mirror', () => {
+  const files: Record<string, string | Buffer> = {
+    '/mise/VERSION': 'v2025.1.0\n',
+    '/mise/releases': JSON.stringify([
+      { tag_name: 'v2025.2.0', draft: false, prerelease: true },
+      { tag_name: 'v2025.1.0', draft: false, prerelease: false },
+      { tag_name: 'v2024.12.0', draft: false, prerelease: false }
+    ])
+  }
+  const requests: string[] = []
+  let server: http.Server
+  let baseUrl: string
+  let tempDir: string
+  let inputs: Record<string, string>
+  const runnerTemp = process.env.RUNNER_TEMP
+
+  beforeAll(async () => {
+    const { target } = await getSystemInfo()
+    const fileName = `mise-v2025.1.0-${target}.tar.gz`
+    const archive = zlib.gzipSync(
+      createTar({ 'mise/bin/mise': '#!/bin/sh\necho mise\n' })
+    )
+    const checksum = crypto.createHash('sha256').update(archive).digest('hex')
+    files[`/mise/2025.1.0/${fileName}`] = archive
+    files['/mise/2025.1.0/SHASUMS256.txt'] = `${checksum}  ./${fileName}\n`
+    files[`/mise/2024.12.0/mise-v2024.12.0-${target}`] = 'tampered'
+    files['/mise/2024.12.0/SHASUMS256.txt'] =
+      `${'a'.repeat(64)}  ./mise-v2024.12.0-${target}\n`
+
+    server = http.createServer((req, res) => {
+      const { pathname } = new URL(req.url ?? '', 'http://localhost')
+      requests.push(pathname)
+      const body = files[pathname]
+      res.writeHead(body === undefined ? 404 : 200)
+      res.end(body ?? 'Not Found')
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mise-mirror-'))
+    process.env.RUNNER_TEMP = tempDir
+    requests.length = 0
+    inputs = {
+      mise_dir: path.join(tempDir, 'mise'),
+      mise_version_url: `${baseUrl}/mise/VERSION`,
+      mise_download_url_template: `${baseUrl}/mise/{version}/{file}`,
+      mise_releases_url: `${baseUrl}/mise/releases`,
+      retry_attempts: '1'
+    }
+    vi.mocked(core.getInput).mockImplementation(name => inputs[name] || '')
+
+    return () => {
+      process.env.RUNNER_TEMP = runnerTemp
+      fs.rmSync(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should look up the latest version from mise_version_url', async () => {
+    expect(await latestMiseVersion()).toBe('v2025.1.0')
+  })
+
+  it('should report files missing from the mirror', async () => {
+    await expect(
+      fetchText(`${baseUrl}/mise/2023.1.0/SHASUMS256.txt`)
+    ).rejects.toThrow(
+      `Failed to fetch ${baseUrl}/mise/2023.1.0/SHASUMS256.txt: HTTP 404`
+    )
+  })
+
+  it('should install mise from the mirror', async () => {
+    await setupMise('2025.1.0')
+
+    const binary = path.join(tempDir, 'mise', 'bin', 'mise')
+    expect(fs.readFileSync(binary, 'utf8')).toBe('#!/bin/sh\necho mise\n')
+    expect(requests).toEqual([
+      expect.stringMatching(
+        /^\/mise\/2025\.1\.0\/mise-v2025\.1\.0-.+\.tar\.gz$/
+      ),
+      '/mise/2025.1.0/SHASUMS256.txt'
+    ])
+    expect(core.addPath).toHaveBeenCalledWith(path.join(tempDir, 'mise', 'bin'))
+  })
+
+  it('should resolve version constraints from mise_releases_url', async () => {
+    await setupMise('2025.x')
+
+    expect(requests[0]).toBe('/mise/releases')
+    expect(fs.existsSync(path.join(tempDir, 'mise', 'bin', 'mise'))).toBe(true)
+    expect(core.info).toHaveBeenCalledWith(
+      'Resolved mise version 2025.x: 2025.1.0'
+    )
+  })
+
+  it('should refuse a download that does not match SHASUMS256.txt', async () => {
+    await expect(setupMise('2024.12.0')).rejects.toThrow(
+      'Checksum mismatch for mise-v2024.12.0-'
+    )
+    expect(fs.existsSync(path.join(tempDir, 'mise', 'bin', 'mise'))).toBe(false)
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as core from '@actions/core'
+import {
+  cacheOutputs,
+  emitOutputs,
+  getOutputs,
+  installOutputs,
+  recordOutputs,
+  resetOutputs
+} from '../src/outputs'
+
+describe('outputs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    resetOutputs()
+  })
+
+  describe('emitOutputs', () => {
+    it('should set every output with defaults', () => {
+      emitOutputs()
+
+      expect(vi.mocked(core.setOutput).mock.calls).toEqual([
+        ['cache-hit', false],
+        ['global-cache-hit', false],
+        ['partial-cache-hit', false],
+        ['tools-cache-hit-ratio', '0/0'],
+        ['cached-tools-count', 0],
+        ['missing-tools-count', 0],
+        ['installed-tools', '[]'],
+        ['failed-tools', '[]'],
+        ['resolved-versions', '{}'],
+        ['mise-version', ''],
+        ['resolved-mise-version', ''],
+        ['mise-path', ''],
+        ['mise-source', ''],
+        ['retry-count', 0],
+        ['report-path', ''],
+        ['phase-timings', '{}'],
+        ['estimated-time-saved-ms', 0]
+      ])
+    })
+
+    it('should set recorded values', () => {
+      recordOutputs({ miseVersion: '2025.1.0', retryCount: 2 })
+
+      emitOutputs()
+
+      expect(core.setOutput).toHaveBeenCalledWith('mise-version', '2025.1.0')
+      expect(core.setOutput).toHaveBeenCalledWith('retry-count', 2)
+      expect(core.setOutput).toHaveBeenCalledTimes(17)
+    })
+  })
+
+  describe('resetOutputs', () => {
+    it('should restore the defaults', () => {
+      recordOutputs({ cacheHit: true })
+
+      resetOutputs()
+
+      expect(getOutputs().cacheHit).toBe(false)
+    })
+  })
+
+  describe('cacheOutputs', () => {
+    it('should report a full cache hit', () => {
+      const result = cacheOutputs(
+        createMockCacheResult({
+          globalCacheHit: true,
+          totalTools: 3,
+          cachedTools: 3
+        })
+      )
+
+      expect(result).toEqual({
+        cacheHit: true,
+        globalCacheHit: true,
+        partialCacheHit: true,
+        toolsCacheHitRatio: '3/3',
+        cachedToolsCount: 3,
+        missingToolsCount: 0,
+        estimatedTimeSavedMs: 0
+      })
+    })
+
+    it('should estimate the time saved from previous installs', () => {
+      const result = cacheOutputs(
+        createMockCacheResult({
+          toolCacheResults: [
+            {
+              tool: createMockTool('node', '22.11.0'),
+              cacheKey: 'k1',
+              cachePath: '/p1',
+              isRestored: true,
+              previousInstallDurationMs: 12000
+            },
+            {
+              tool: createMockTool('go', '1.23.0'),
+              cacheKey: 'k2',
+              cachePath: '/p2',
+              isRestored: true
+            },
+            {
+              tool: createMockTool('python', '3.12.7'),
+              cacheKey: 'k3',
+              cachePath: '/p3',
+              isRestored: false,
+              previousInstallDurationMs: 30000
+            }
+          ],
+          totalTools: 3,
+          cachedTools: 2
+        })
+      )
+
+      expect(result.estimatedTimeSavedMs).toBe(12000)
+    })
+
+    it('should report a partial cache hit', () => {
+      const result = cacheOutputs(
+        createMockCacheResult({ totalTools: 3, cachedTools: 2 })
+      )
+
+      expect(result).toMatchObject({
+        cacheHit: false,
+        globalCacheHit: false,
+        partialCacheHit: true,
+        toolsCacheHitRatio: '2/3',
+        missingToolsCount: 1
+      })
+    })
+
+    it('should report a complete cache miss', () => {
+      const result = cacheOutputs(
+        createMockCacheResult({ totalTools: 3, cachedTools: 0 })
+      )
+
+      expect(result).toMatchObject({
+        cacheHit: false,
+        partialCacheHit: false,
+        toolsCacheHitRatio: '0/3',
+        cachedToolsCount: 0,
+        missingToolsCount: 3
+      })
+    })
+  })
+
+  describe('installOutputs', () => {
+    it('should list tools as JSON arrays', () => {
+      const node = createMockTool('node', '22.11.0')
+      const python = createMockTool('python', '3.12.7')
+
+      const result = installOutputs(
+        [node],
+        [{ tool: python, exitCode: 1, output: [] }]
+      )
+
+      expect(result).toEqual({
+        installedTools: '["node@22.11.0"]',
+        failedTools: '["python@3.12.7"]'
+      })
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as core from '@actions/core'
+import { post } from '../src/post'
+import * as cache from '../src/cache'
+
+vi.mock('../src/cache')
+
+describe('post', () => {
+  const cacheResult = createMockCacheResult({
+    totalTools: 1,
+    missingTools: [createMockTool('node', '20.0.0')]
+  })
+
+  const mockState = (state: Record<string, string>): void => {
+    vi.mocked(core.getState).mockImplementation(name => state[name] || '')
+  }
+
+  const mockInputs = (inputs: Record<string, string>): void => {
+    vi.mocked(core.getInput).mockImplementation(name => inputs[name] || '')
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    vi.mocked(core.getBooleanInput).mockImplementation(name => name === 'cache')
+    vi.mocked(cache.saveAllCaches).mockResolvedValue()
+    mockInputs({})
+    mockState({
+      CACHE_RESULT: JSON.stringify(cacheResult),
+      RUN_SUCCEEDED: 'true'
+    })
+  })
+
+  it('should save caches with the restore results from the main step', async () => {
+    await post()
+
+    expect(cache.saveAllCaches).toHaveBeenCalledWith(cacheResult)
+    expect(core.info).toHaveBeenCalledWith(
+      expect.stringMatching(/^Cache save took \d+\.\ds$/)
+    )
+  })
+
+  it('should skip saving when cache is disabled', async () => {
+    vi.mocked(core.getBooleanInput).mockReturnValue(false)
+
+    await post()
+
+    expect(cache.saveAllCaches).not.toHaveBeenCalled()
+  })
+
+  it('should skip saving when setup failed', async () => {
+    mockState({ CACHE_RESULT: JSON.stringify(cacheResult) })
+
+    await post()
+
+    expect(cache.saveAllCaches).not.toHaveBeenCalled()
+    expect(core.info).toHaveBeenCalledWith(
+      'mise setup did not succeed, skipping cache save'
+    )
+  })
+
+  it('should save after a failed setup when post_if is always', async () => {
+    mockInputs({ post_if: 'always' })
+    mockState({ CACHE_RESULT: JSON.stringify(cacheResult) })
+
+    await post()
+
+    expect(cache.saveAllCaches).toHaveBeenCalledWith(cacheResult)
+  })
+
+  it('should skip saving when caches were never restored', async () => {
+    mockState({ RUN_SUCCEEDED: 'true' })
+
+    await post()
+
+    expect(cache.saveAllCaches).not.toHaveBeenCalled()
+  })
+
+  it('should warn instead of failing on an invalid post_if', async () => {
+    mockInputs({ post_if: 'sometimes' })
+
+    await post()
+
+    expect(cache.saveAllCaches).not.toHaveBeenCalled()
+    expect(core.warning).toHaveBeenCalledWith(
+      'Failed to save caches: Error: Invalid post_if value: sometimes, expected success or always'
+    )
+    expect(core.setFailed).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import { getOutputs, recordOutputs, resetOutputs } from '../src/outputs'
+import { buildRunReport, writeRunReport } from '../src/report'
+import { RunReport } from '../src/types'
+
+describe('report', () => {
+  const node = createMockTool('node', '22.11.0')
+  const python = createMockTool('python', '3.12.7', '.tool-versions')
+  const go = createMockTool('go', '1.23.0')
+
+  const cacheResult = createMockCacheResult({
+    globalCacheHit: true,
+    toolCacheResults: [
+      {
+        tool: node,
+        cacheKey: 'mise-v1-linux-x64-tool-node-22.11.0',
+        cachePath: '/mise/installs/node/22.11.0',
+        isRestored: true,
+        previousInstallDurationMs: 9000
+      },
+      {
+        tool: python,
+        cacheKey: 'mise-v1-linux-x64-tool-python-3.12.7',
+        cachePath: '/mise/installs/python/3.12.7',
+        isRestored: false
+      }
+    ]
+  })
+
+  const dirent = (name: string, isDirectory: boolean): fs.Dirent =>
+    ({
+      name,
+      isDirectory: () => isDirectory,
+      isFile: () => !isDirectory
+    }) as fs.Dirent
+
+  const emptyReport: RunReport = {
+    success: true,
+    durationMs: 0,
+    miseVersion: '',
+    misePath: '',
+    globalCacheHit: false,
+    retryCount: 0,
+    phaseTimings: {
+      discovery: 0,
+      cacheRestore: 0,
+      miseDownload: 0,
+      install: 0,
+      cacheSave: 0
+    },
+    estimatedTimeSavedMs: 0,
+    tools: []
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    resetOutputs()
+    vi.mocked(core.getInput).mockReturnValue('')
+
+    // installs/node/22.11.0 holds bin/node (100 bytes) and README (20 bytes)
+    vi.mocked(fs.promises.readdir).mockImplementation((async (
+      dir: fs.PathLike
+    ) =>
+      dir === '/mise/installs/node/22.11.0'
+        ? [dirent('bin', true), dirent('README', false)]
+        : [dirent('node', false)]) as unknown as typeof fs.promises.readdir)
+    vi.mocked(fs.promises.stat).mockImplementation((async (
+      file: fs.PathLike
+    ) => ({
+      size: file.toString().endsWith('README') ? 20 : 100
+    })) as unknown as typeof fs.promises.stat)
+  })
+
+  it('should report the cache and install results of every tool', async () => {
+    recordOutputs({ miseVersion: '2025.1.0', misePath: '/mise/bin/mise' })
+
+    const report = await buildRunReport({
+      success: false,
+      startedAt: Date.now(),
+      tools: [node, python, go],
+      cacheResult,
+      installs: [
+        { tool: python, exitCode: 1, durationMs: 1500 },
+        { tool: go, exitCode: 0, durationMs: 3000 }
+      ]
+    })
+
+    expect(report).toMatchObject({
+      success: false,
+      miseVersion: '2025.1.0',
+      misePath: '/mise/bin/mise',
+      globalCacheHit: true,
+      retryCount: 0,
+      estimatedTimeSavedMs: 9000
+    })
+    expect(report.tools).toEqual([
+      {
+        ...cacheResult.toolCacheResults[0],
+        restoredBytes: 120,
+        installed: false,
+        installDurationMs: null,
+        exitCode: null
+      },
+      {
+        ...cacheResult.toolCacheResults[1],
+        restoredBytes: 0,
+        installed: false,
+        installDurationMs: 1500,
+        exitCode: 1
+      },
+      {
+        tool: go,
+        cacheKey: '',
+        cachePath: '',
+        isRestored: false,
+        restoredBytes: 0,
+        installed: true,
+        installDurationMs: 3000,
+        exitCode: 0
+      }
+    ])
+  })
+
+  it('should write to RUNNER_TEMP by default and set the output', async () => {
+    await writeRunReport(emptyReport)
+
+    expect(fs.promises.writeFile).toHaveBeenCalledWith(
+      '/tmp/test-temp/mise-report.json',
+      JSON.stringify(emptyReport, null, 2)
+    )
+    expect(getOutputs().reportPath).toBe('/tmp/test-temp/mise-report.json')
+  })
+
+  it('should write to report_path', async () => {
+    vi.mocked(core.getInput).mockImplementation(name =>
+      name === 'report_path' ? '/reports/mise.json' : ''
+    )
+
+    await writeRunReport(emptyReport)
+
+    expect(fs.promises.mkdir).toHaveBeenCalledWith('/reports', {
+      recursive: true
+    })
+    expect(fs.promises.writeFile).toHaveBeenCalledWith(
+      '/reports/mise.json',
+      expect.any(String)
+    )
+  })
+
+  it('should warn when the report cannot be written', async () => {
+    vi.mocked(fs.promises.writeFile).mockRejectedValueOnce(
+      new Error('EACCES: permission denied')
+    )
+
+    await writeRunReport(emptyReport)
+
+    expect(core.warning).toHaveBeenCalledWith(
+      'Failed to write run report to /tmp/test-temp/mise-report.json: Error: EACCES: permission denied'
+    )
+    expect(getOutputs().reportPath).toBe('')
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as core from '@actions/core'
+import {
+  getRetryCount,
+  getRetryOptions,
+  withExitCodeRetry,
+  withRetry
+} from '../src/retry'
+
+describe('retry', () => {
+  const mockInputs = (inputs: Record<string, string>): void => {
+    vi.mocked(core.getInput).mockImplementation(
+      name => ({ retry_backoff: '0', ...inputs })[name] || ''
+    )
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockInputs({})
+  })
+
+  describe('getRetryOptions', () => {
+    it('should default to 3 attempts with a 2s backoff', () => {
+      vi.mocked(core.getInput).mockReturnValue('')
+
+      expect(getRetryOptions()).toEqual({
+        attempts: 3,
+        backoffSeconds: 2,
+        retryableExitCodes: []
+      })
+    })
+
+    it('should parse the retry inputs', () => {
+      mockInputs({
+        retry_attempts: '5',
+        retry_backoff: '0.5',
+        retry_exit_codes: '1, 137'
+      })
+
+      expect(getRetryOptions()).toEqual({
+        attempts: 5,
+        backoffSeconds: 0.5,
+        retryableExitCodes: [1, 137]
+      })
+    })
+
+    it('should always make at least one attempt', () => {
+      mockInputs({ retry_attempts: '0' })
+
+      expect(getRetryOptions().attempts).toBe(1)
+    })
+  })
+
+  describe('withRetry', () => {
+    it('should retry until the operation succeeds', async () => {
+      const before = getRetryCount()
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce('ok')
+
+      const result = await withRetry('Fetching', fn)
+
+      expect(result).toBe('ok')
+      expect(fn).toHaveBeenCalledTimes(2)
+      expect(getRetryCount()).toBe(before + 1)
+      expect(core.info).toHaveBeenCalledWith(
+        '⟳ Fetching failed (Error: ECONNRESET), retrying in 0s (attempt 2/3)'
+      )
+    })
+
+    it('should throw the last error once attempts are exhausted', async () => {
+      const fn = vi.fn().mockRejectedValue(new Error('ECONNRESET'))
+
+      await expect(withRetry('Fetching', fn)).rejects.toThrow('ECONNRESET')
+      expect(fn).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not retry errors that are not retryable', async () => {
+      const fn = vi.fn().mockRejectedValue(new Error('HTTP 404'))
+
+      await expect(withRetry('Fetching', fn, () => false)).rejects.toThrow(
+        'HTTP 404'
+      )
+      expect(fn).toHaveBeenCalledTimes(1)
+    })
+
+    it('should back off exponentially', async () => {
+      vi.useFakeTimers()
+      mockInputs({ retry_backoff: '1' })
+      const fn = vi.fn().mockRejectedValue(new Error('ECONNRESET'))
+
+      const result = expect(withRetry('Fetching', fn)).rejects.toThrow()
+      await vi.advanceTimersByTimeAsync(999)
+      expect(fn).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1)
+      expect(fn).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(2000)
+      await result
+      expect(fn).toHaveBeenCalledTimes(3)
+
+      vi.useRealTimers()
+    })
+  })
+
+  describe('withExitCodeRetry', () => {
+    it('should not retry a successful command', async () => {
+      const fn = vi.fn().mockResolvedValue(0)
+
+      expect(await withExitCodeRetry('Installing', fn)).toBe(0)
+      expect(fn).toHaveBeenCalledTimes(1)
+    })
+
+    it('should return the last exit code once attempts are exhausted', async () => {
+      const fn = vi.fn().mockResolvedValue(1)
+
+      expect(await withExitCodeRetry('Installing', fn)).toBe(1)
+      expect(fn).toHaveBeenCalledTimes(3)
+    })
+
+    it('should only retry the configured exit codes', async () => {
+      mockInputs({ retry_exit_codes: '137' })
+      const fn = vi.fn().mockResolvedValueOnce(137).mockResolvedValueOnce(1)
+
+      expect(await withExitCodeRetry('Installing', fn)).toBe(1)
+      expect(fn).toHaveBeenCalledTimes(2)
+    })
+  })
+})
@@ -0,0 +1,532 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as io from '@actions/io'
+import * as fs from 'fs'
+import * as archive from '../src/archive'
+import { getOutputs } from '../src/outputs'
+import {
+  findPreinstalledMise,
+  installSpecificTools,
+  setupMise,
+  testMise
+} from '../src/setup'
+import * as utils from '../src/utils'
+import * as version from '../src/version'
+
+vi.mock('../src/utils')
+vi.mock('../src/version')
+vi.mock('../src/archive')
+
+describe('setup', () => {
+  const fileName = 'mise-v2025.1.0-linux-x64.tar.gz'
+  const checksum = 'a'.repeat(64)
+
+  const mockInputs = (inputs: Record<string, string>): void => {
+    vi.mocked(core.getInput).mockImplementation(
+      name => ({ retry_backoff: '0', ...inputs })[name] || ''
+    )
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    Object.defineProperty(process, 'platform', { value: 'linux' })
+    vi.mocked(fs.existsSync).mockReturnValue(false)
+    vi.mocked(utils.miseDir).mockReturnValue('/mock/mise/dir')
+    vi.mocked(utils.miseBinPath).mockReturnValue('/mock/mise/dir/bin/mise')
+    vi.mocked(version.resolveMiseVersion).mockImplementation(async v =>
+      (v || '2025.1.0').replace(/^v/, '')
+    )
+    vi.mocked(utils.getSystemInfo).mockResolvedValue({
+      platform: 'linux',
+      arch: 'x64',
+      target: 'linux-x64',
+      isMusl: false
+    })
+    vi.mocked(archive.zstdSupported).mockReturnValue(false)
+    vi.mocked(archive.extractFile).mockReturnValue(Buffer.from('mise'))
+    vi.mocked(utils.downloadFile).mockResolvedValue('/tmp/test-temp/download')
+    vi.mocked(fs.promises.readFile).mockResolvedValue(Buffer.from('archive'))
+    vi.mocked(utils.sha256File).mockResolvedValue(checksum)
+    vi.mocked(utils.fetchText).mockResolvedValue(
+      `${'b'.repeat(64)}  ./mise-v2025.1.0-linux-arm64.tar.gz\n${checksum}  ./${fileName}\n`
+    )
+    mockInputs({})
+  })
+
+  describe('setupMise', () => {
+    const mockExistingMise = (installed: string): void => {
+      vi.mocked(fs.existsSync).mockReturnValue(true)
+      vi.mocked(exec.getExecOutput).mockResolvedValue({
+        exitCode: 0,
+        stdout: `${installed} linux-x64 (2025-01-02)\n`,
+        stderr: ''
+      })
+      vi.mocked(version.miseVersionSatisfies).mockImplementation(
+        async (v, requested) => !requested || v === requested
+      )
+    }
+
+    it('should skip the download when mise is already installed', async () => {
+      mockExistingMise('2025.1.0')
+
+      await setupMise('2025.1.0')
+
+      expect(exec.getExecOutput).toHaveBeenCalledWith(
+        '/mock/mise/dir/bin/mise',
+        ['--version'],
+        { silent: true, ignoreReturnCode: true }
+      )
+      expect(utils.downloadFile).not.toHaveBeenCalled()
+      expect(core.addPath).toHaveBeenCalledWith('/mock/mise/dir/bin')
+    })
+
+    it('should replace an existing mise of another version', async () => {
+      mockExistingMise('2024.12.0')
+
+      await setupMise('2025.1.0')
+
+      expect(utils.downloadFile).toHaveBeenCalledWith(
+        `https://github.com/jdx/mise/releases/download/v2025.1.0/${fileName}`
+      )
+      expect(fs.promises.writeFile).toHaveBeenCalledWith(
+        '/mock/mise/dir/bin/mise',
+        Buffer.from('mise'),
+        { mode: 0o755 }
+      )
+      expect(getOutputs().miseSource).toBe('download')
+    })
+
+    it('should fail when the existing mise cannot be replaced', async () => {
+      mockExistingMise('2024.12.0')
+      vi.mocked(utils.sha256File).mockResolvedValue('c'.repeat(64))
+
+      await expect(setupMise('2025.1.0')).rejects.toThrow(
+        `Failed to setup mise: Error: Checksum mismatch for ${fileName}`
+      )
+      expect(fs.promises.writeFile).not.toHaveBeenCalled()
+      expect(core.addPath).not.toHaveBeenCalled()
+    })
+
+    it('should verify the archive against SHASUMS256.txt before extracting', async () => {
+      await setupMise('v2025.1.0')
+
+      expect(utils.downloadFile).toHaveBeenCalledWith(
+        `https://github.com/jdx/mise/releases/download/v2025.1.0/${fileName}`
+      )
+      expect(utils.fetchText).toHaveBeenCalledWith(
+        'https://github.com/jdx/mise/releases/download/v2025.1.0/SHASUMS256.txt'
+      )
+      expect(utils.sha256File).toHaveBeenCalledWith('/tmp/test-temp/download')
+      expect(archive.extractFile).toHaveBeenCalledWith(
+        Buffer.from('archive'),
+        '.tar.gz',
+        'mise/bin/mise'
+      )
+      expect(fs.promises.writeFile).toHaveBeenCalledWith(
+        '/mock/mise/dir/bin/mise',
+        Buffer.from('mise'),
+        { mode: 0o755 }
+      )
+      expect(io.rmRF).toHaveBeenCalledWith('/tmp/test-temp/download')
+      expect(exec.exec).not.toHaveBeenCalled()
+    })
+
+    it('should download the latest release when no version is given', async () => {
+      await setupMise()
+
+      expect(version.resolveMiseVersion).toHaveBeenCalledWith(undefined)
+      expect(utils.downloadFile).toHaveBeenCalledWith(
+        `https://github.com/jdx/mise/releases/download/v2025.1.0/${fileName}`
+      )
+      expect(getOutputs()).toMatchObject({
+        resolvedMiseVersion: '2025.1.0',
+        miseSource: 'download'
+      })
+    })
+
+    it('should download .tar.zst when Node.js supports zstd', async () => {
+      vi.mocked(archive.zstdSupported).mockReturnValue(true)
+      vi.mocked(utils.fetchText).mockResolvedValue(
+        `${checksum}  ./mise-v2025.1.0-linux-x64.tar.zst\n`
+      )
+
+      await setupMise('2025.1.0')
+
+      expect(utils.downloadFile).toHaveBeenCalledWith(
+        'https://github.com/jdx/mise/releases/download/v2025.1.0/mise-v2025.1.0-linux-x64.tar.zst'
+      )
+      expect(archive.extractFile).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        '.tar.zst',
+        'mise/bin/mise'
+      )
+    })
+
+    it('should install 2024 releases as a raw binary', async () => {
+      vi.mocked(utils.fetchText).mockResolvedValue(
+        `${checksum}  ./mise-v2024.12.0-linux-x64\n`
+      )
+
+      await setupMise('2024.12.0')
+
+      expect(archive.extractFile).not.toHaveBeenCalled()
+      expect(fs.promises.writeFile).toHaveBeenCalledWith(
+        '/mock/mise/dir/bin/mise',
+        Buffer.from('archive'),
+        { mode: 0o755 }
+      )
+    })
+
+    it('should download from mise_download_url_template', async () => {
+      mockInputs({
+        mise_download_url_template:
+          'https://artifactory.example.com/mise/{version}/{file}'
+      })
+
+      await setupMise('2025.1.0')
+
+      expect(utils.downloadFile).toHaveBeenCalledWith(
+        `https://artifactory.example.com/mise/2025.1.0/${fileName}`
+      )
+      expect(utils.fetchText).toHaveBeenCalledWith(
+        'https://artifactory.example.com/mise/2025.1.0/SHASUMS256.txt'
+      )
+    })
+
+    it('should fail when mise_download_url_template has no {file}', async () => {
+      mockInputs({
+        mise_download_url_template: 'https://artifactory.example.com/mise'
+      })
+
+      await expect(setupMise('2025.1.0')).rejects.toThrow(
+        'mise_download_url_template must contain {file}: https://artifactory.example.com/mise'
+      )
+      expect(utils.downloadFile).not.toHaveBeenCalled()
+    })
+
+    it('should report archive failures', async () => {
+      vi.mocked(archive.extractFile).mockImplementation(() => {
+        throw new Error('mise/bin/mise not found in archive')
+      })
+
+      await expect(setupMise('2025.1.0')).rejects.toThrow(
+        `Failed to extract mise from ${fileName}: Error: mise/bin/mise not found in archive`
+      )
+      expect(fs.promises.writeFile).not.toHaveBeenCalled()
+    })
+
+    it('should fail on a checksum mismatch without extracting', async () => {
+      vi.mocked(utils.sha256File).mockResolvedValue('c'.repeat(64))
+
+      await expect(setupMise('2025.1.0')).rejects.toThrow(
+        `Checksum mismatch for ${fileName}`
+      )
+      expect(archive.extractFile).not.toHaveBeenCalled()
+      expect(fs.promises.writeFile).not.toHaveBeenCalled()
+      expect(io.rmRF).toHaveBeenCalledWith('/tmp/test-temp/download')
+    })
+
+    it('should fail when the archive is not listed in SHASUMS256.txt', async () => {
+      vi.mocked(utils.fetchText).mockResolvedValue(
+        `${checksum}  ./mise-v2025.1.0-macos-arm64.tar.gz\n`
+      )
+
+      await expect(setupMise('2025.1.0')).rejects.toThrow(
+        `No checksum for ${fileName}`
+      )
+      expect(fs.promises.writeFile).not.toHaveBeenCalled()
+    })
+
+    it('should verify against the checksum input when pinned', async () => {
+      mockInputs({ checksum: `sha256:${checksum.toUpperCase()}` })
+
+      await setupMise('2025.1.0')
+
+      expect(utils.fetchText).not.toHaveBeenCalled()
+      expect(fs.promises.writeFile).toHaveBeenCalled()
+    })
+
+    it('should fail when the pinned checksum does not match', async () => {
+      mockInputs({ checksum: 'd'.repeat(64) })
+
+      await expect(setupMise('2025.1.0')).rejects.toThrow(
+        `Checksum mismatch for ${fileName}: expected ${'d'.repeat(64)}, got ${checksum}`
+      )
+    })
+  })
+
+  describe('findPreinstalledMise', () => {
+    beforeEach(() => {
+      vi.mocked(fs.existsSync).mockReturnValue(true)
+      vi.mocked(exec.getExecOutput).mockResolvedValue({
+        exitCode: 0,
+        stdout: '2025.1.0 linux-x64 (2025-01-02)\n',
+        stderr: ''
+      })
+      vi.mocked(version.miseVersionSatisfies).mockResolvedValue(true)
+    })
+
+    it('should not look for mise without mise_binary', async () => {
+      const result = await findPreinstalledMise('2025.1.0')
+
+      expect(result).toBeUndefined()
+      expect(io.which).not.toHaveBeenCalled()
+    })
+
+    it('should use mise from PATH in auto mode', async () => {
+      mockInputs({ mise_binary: 'auto' })
+      vi.mocked(io.which).mockResolvedValue('/usr/local/bin/mise')
+
+      const result = await findPreinstalledMise('2025.x')
+
+      expect(result).toBe('/usr/local/bin/mise')
+      expect(exec.getExecOutput).toHaveBeenCalledWith(
+        '/usr/local/bin/mise',
+        ['--version'],
+        { silent: true, ignoreReturnCode: true }
+      )
+      expect(version.miseVersionSatisfies).toHaveBeenCalledWith(
+        '2025.1.0',
+        '2025.x'
+      )
+    })
+
+    it('should set up mise when none is on PATH in auto mode', async () => {
+      mockInputs({ mise_binary: 'auto' })
+      vi.mocked(io.which).mockResolvedValue('')
+
+      expect(await findPreinstalledMise()).toBeUndefined()
+    })
+
+    it('should set up mise when the binary does not satisfy the version', async () => {
+      mockInputs({ mise_binary: '/opt/mise/bin/mise' })
+      vi.mocked(version.miseVersionSatisfies).mockResolvedValue(false)
+
+      const result = await findPreinstalledMise('>=2025.9')
+
+      expect(result).toBeUndefined()
+      expect(core.warning).toHaveBeenCalledWith(
+        '/opt/mise/bin/mise is mise 2025.1.0, which does not satisfy >=2025.9, setting up mise'
+      )
+    })
+
+    it('should fail when the mise_binary does not exist', async () => {
+      mockInputs({ mise_binary: '/opt/mise/bin/mise' })
+      vi.mocked(fs.existsSync).mockReturnValue(false)
+
+      await expect(findPreinstalledMise()).rejects.toThrow(
+        'mise_binary not found: /opt/mise/bin/mise'
+      )
+    })
+  })
+
+  describe('installSpecificTools', () => {
+    const node = createMockTool('node', '20.0.0')
+
+    it('should retry failed installs', async () => {
+      vi.mocked(exec.exec).mockResolvedValueOnce(1).mockResolvedValueOnce(0)
+
+      const result = await installSpecificTools([node])
+
+      expect(result).toEqual({
+        installedTools: [node],
+        failedTools: [],
+        installs: [{ tool: node, exitCode: 0, durationMs: expect.any(Number) }]
+      })
+      expect(exec.exec).toHaveBeenCalledTimes(2)
+      expect(exec.exec).toHaveBeenCalledWith(
+        'mise',
+        ['install', 'node@20.0.0'],
+        expect.objectContaining({ ignoreReturnCode: true })
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Installing node@20.0.0 failed (exit code 1), retrying'
+        )
+      )
+    })
+
+    it('should only time the attempt that installed the tool', async () => {
+      let now = 0
+      const dateNow = vi.spyOn(Date, 'now').mockImplementation(() => now)
+      vi.mocked(exec.exec)
+        .mockImplementationOnce(async () => {
+          now += 5000
+          return 1
+        })
+        .mockImplementationOnce(async () => {
+          now += 1000
+          return 0
+        })
+
+      const { installs } = await installSpecificTools([node])
+      dateNow.mockRestore()
+
+      expect(installs).toEqual([{ tool: node, exitCode: 0, durationMs: 1000 }])
+    })
+
+    it('should give up after the configured attempts', async () => {
+      mockInputs({ retry_attempts: '2' })
+      vi.mocked(exec.exec).mockResolvedValue(1)
+
+      const result = await installSpecificTools([node])
+
+      expect(result).toEqual({
+        installedTools: [],
+        failedTools: [{ tool: node, exitCode: 1, output: [] }],
+        installs: [{ tool: node, exitCode: 1, durationMs: expect.any(Number) }]
+      })
+      expect(exec.exec).toHaveBeenCalledTimes(2)
+    })
+
+    it('should keep the last lines of a failed install', async () => {
+      mockInputs({ retry_attempts: '1' })
+      vi.mocked(exec.exec).mockImplementation(async (_cmd, _args, options) => {
+        const lines = Array.from({ length: 15 }, (_, i) => `line ${i + 1}`)
+        options!.listeners!.stderr!(Buffer.from(`${lines.join('\n')}\n\n`))
+        return 2
+      })
+
+      const { failedTools } = await installSpecificTools([node])
+
+      expect(failedTools).toEqual([
+        {
+          tool: node,
+          exitCode: 2,
+          output: Array.from({ length: 10 }, (_, i) => `line ${i + 6}`)
+        }
+      ])
+    })
+
+    it('should report installs where mise could not run', async () => {
+      vi.mocked(exec.exec).mockRejectedValue(new Error('spawn mise ENOENT'))
+
+      const { failedTools } = await installSpecificTools([node])
+
+      expect(failedTools).toEqual([
+        { tool: node, exitCode: null, output: ['Error: spawn mise ENOENT'] }
+      ])
+    })
+
+    it('should only retry the configured exit codes', async () => {
+      mockInputs({ retry_exit_codes: '2, 3' })
+      vi.mocked(exec.exec).mockResolvedValue(1)
+
+      await installSpecificTools([node])
+
+      expect(exec.exec).toHaveBeenCalledTimes(1)
+    })
+
+    describe('with install_concurrency', () => {
+      const python = createMockTool('python', '3.12.0')
+      const go = createMockTool('go', '1.22.0')
+
+      // Track which installs are running, finishing each after a tick
+      const mockConcurrentInstalls = (failing: string[] = []): string[][] => {
+        const running: string[] = []
+        const snapshots: string[][] = []
+        vi.mocked(exec.exec).mockImplementation(async (_cmd, args) => {
+          const spec = args![1]
+          running.push(spec)
+          snapshots.push([...running])
+          await new Promise(resolve => setTimeout(resolve, 1))
+          running.splice(running.indexOf(spec), 1)
+          return failing.includes(spec) ? 1 : 0
+        })
+        return snapshots
+      }
+
+      beforeEach(() => {
+        mockInputs({ install_concurrency: '2', retry_attempts: '1' })
+      })
+
+      it('should install at most install_concurrency tools at once', async () => {
+        const snapshots = mockConcurrentInstalls()
+
+        const { installedTools } = await installSpecificTools([
+          node,
+          python,
+          go
+        ])
+
+        expect(installedTools).toEqual([node, python, go])
+        expect(Math.max(...snapshots.map(s => s.length))).toBe(2)
+      })
+
+      it('should keep the per-tool results', async () => {
+        mockConcurrentInstalls(['python@3.12.0'])
+
+        const result = await installSpecificTools([node, python, go])
+
+        expect(result.installedTools).toEqual([node, go])
+        expect(result.failedTools).toEqual([
+          { tool: python, exitCode: 1, output: [] }
+        ])
+        expect(core.info).toHaveBeenCalledWith(
+          'Successfully installed 2/3 tools'
+        )
+      })
+
+      it('should print each tool output in its own group', async () => {
+        vi.mocked(exec.exec).mockImplementation(async (_cmd, args, options) => {
+          options!.listeners!.stdout!(Buffer.from(`installed ${args![1]}\n`))
+          return 0
+        })
+
+        await installSpecificTools([node, python])
+
+        expect(exec.exec).toHaveBeenCalledWith(
+          'mise',
+          ['install', 'node@20.0.0'],
+          expect.objectContaining({ silent: true })
+        )
+        expect(core.group).toHaveBeenCalledWith(
+          'Running mise install node@20.0.0',
+          expect.any(Function)
+        )
+        expect(core.info).toHaveBeenCalledWith('installed node@20.0.0')
+        expect(core.info).toHaveBeenCalledWith('installed python@3.12.0')
+      })
+
+      it('should install versions of the same tool one at a time', async () => {
+        const snapshots = mockConcurrentInstalls()
+        const node18 = createMockTool('node', '18.0.0')
+
+        await installSpecificTools([node, node18])
+
+        expect(snapshots).toEqual([['node@20.0.0'], ['node@18.0.0']])
+      })
+
+      it('should install runtime backend tools after the runtimes', async () => {
+        const snapshots = mockConcurrentInstalls()
+        const prettier = createMockTool('npm:prettier', '3.3.3')
+
+        await installSpecificTools([prettier, node])
+
+        expect(snapshots).toEqual([['node@20.0.0'], ['npm:prettier@3.3.3']])
+      })
+    })
+  })
+
+  describe('testMise', () => {
+    it('should record the mise version and path', async () => {
+      vi.mocked(io.which).mockResolvedValue('/mock/mise/dir/bin/mise')
+      vi.mocked(exec.exec).mockImplementation(async (_cmd, _args, options) => {
+        options!.listeners!.stdout!(
+          Buffer.from('2025.1.0 linux-x64 (2025-01-01)\n')
+        )
+        return 0
+      })
+
+      const result = await testMise()
+
+      expect(result).toBe(0)
+      expect(getOutputs()).toMatchObject({
+        miseVersion: '2025.1.0',
+        misePath: '/mock/mise/dir/bin/mise'
+      })
+    })
+  })
+})
@@ -15,6 +15,7 @@ vi.mock('@actions/core', () => ({
   setFailed: vi.fn(),
   setOutput: vi.fn(),
   exportVariable: vi.fn(),
+  setSecret: vi.fn(),
   addPath: vi.fn(),
   getInput: vi.fn(),
   getBooleanInput: vi.fn(),
@@ -23,7 +24,16 @@ vi.mock('@actions/core', () => ({
   endGroup: vi.fn(),
   group: vi.fn((name, fn) => fn()),
   saveState: vi.fn(),
-  getState: vi.fn()
+  getState: vi.fn(),
+  summary: {
+    addHeading: vi.fn().mockReturnThis(),
+    addRaw: vi.fn().mockReturnThis(),
+    addList: vi.fn().mockReturnThis(),
+    addTable: vi.fn().mockReturnThis(),
+    addCodeBlock: vi.fn().mockReturnThis(),
+    addEOL: vi.fn().mockReturnThis(),
+    write: vi.fn().mockReturnThis()
+  }
 }))
 
 vi.mock('@actions/exec', () => ({
@@ -44,7 +54,8 @@ vi.mock('@actions/glob', () => ({
 vi.mock('@actions/io', () => ({
   mv: vi.fn(),
   cp: vi.fn(),
-  rmRF: vi.fn()
+  rmRF: vi.fn(),
+  which: vi.fn()
 }))
 
 // Mock Node.js modules
@@ -88,6 +99,28 @@ Object.assign(globalThis, {
     source
   }),
 
+  // Build an uncompressed ustar archive
+  createTar: (files: Record<string, string>): Buffer => {
+    const blocks: Buffer[] = []
+
+    for (const [name, content] of Object.entries(files)) {
+      const header = Buffer.alloc(512)
+      header.write(name, 0)
+      header.write('0000755\0', 100)
+      header.write(`${content.length.toString(8).padStart(11, '0')}\0`, 124)
+      header.write('0', 156)
+      header.write('ustar\0', 257)
+      blocks.push(header)
+
+      const data = Buffer.alloc(Math.ceil(content.length / 512) * 512)
+      data.write(content)
+      blocks.push(data)
+    }
+
+    blocks.push(Buffer.alloc(1024))
+    return Buffer.concat(blocks)
+  },
+
   createMockCacheResult: (
     overrides: Partial<CacheResult> = {}
   ): CacheResult => ({
@@ -96,6 +129,9 @@ Object.assign(globalThis, {
     totalTools: 0,
     cachedTools: 0,
     missingTools: [],
+    pluginCacheResults: [],
+    miseCacheResult: null,
+    manifest: null,
     ...overrides
   })
 })
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as core from '@actions/core'
+import { writeJobSummary } from '../src/summary'
+import { RunReport, ToolReport } from '../src/types'
+
+describe('summary', () => {
+  const node = createMockTool('node', '22.11.0')
+  const python = {
+    ...createMockTool('python', '3.12.7', '.tool-versions'),
+    requestedVersion: '3.12'
+  }
+  const go = createMockTool('go', '1.23.0')
+
+  const toolReport = (overrides: Partial<ToolReport>): ToolReport => ({
+    tool: node,
+    cacheKey: '',
+    cachePath: '',
+    isRestored: false,
+    restoredBytes: 0,
+    installed: false,
+    installDurationMs: null,
+    exitCode: null,
+    ...overrides
+  })
+
+  const report: RunReport = {
+    success: false,
+    durationMs: 12345,
+    miseVersion: '2025.1.0',
+    misePath: '/mise/bin/mise',
+    globalCacheHit: true,
+    retryCount: 0,
+    phaseTimings: {
+      discovery: 200,
+      cacheRestore: 1500,
+      miseDownload: 0,
+      install: 4500,
+      cacheSave: 0
+    },
+    estimatedTimeSavedMs: 12000,
+    tools: [
+      toolReport({
+        tool: node,
+        isRestored: true,
+        restoredBytes: 120,
+        restoreDurationMs: 800
+      }),
+      toolReport({
+        tool: python,
+        installed: true,
+        installDurationMs: 1500,
+        exitCode: 0
+      }),
+      toolReport({ tool: go, installDurationMs: 3000, exitCode: 1 })
+    ]
+  }
+
+  const cacheResult = createMockCacheResult({
+    globalCacheHit: true,
+    toolCacheResults: [
+      { tool: node, cacheKey: 'k1', cachePath: '/p1', isRestored: true },
+      { tool: python, cacheKey: 'k2', cachePath: '/p2', isRestored: false },
+      { tool: go, cacheKey: 'k3', cachePath: '/p3', isRestored: false }
+    ],
+    totalTools: 3,
+    cachedTools: 1,
+    missingTools: [python, go]
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(core.getBooleanInput).mockImplementation(
+      name => name === 'job_summary'
+    )
+  })
+
+  it('should summarize the run and the cache', async () => {
+    await writeJobSummary({ report, cacheResult, failures: [] })
+
+    expect(core.summary.addHeading).toHaveBeenCalledWith('mise ✗', 2)
+    expect(core.summary.addList).toHaveBeenCalledWith([
+      'mise version: 2025.1.0',
+      'Duration: 12.3s',
+      'Phases: discovery 0.2s, cache restore 1.5s, install 4.5s',
+      'Global mise cache: ✓ Hit',
+      'Tool caches: 1/3 restored (33.3%)',
+      'Estimated time saved: ~12.0s'
+    ])
+    expect(core.summary.write).toHaveBeenCalled()
+  })
+
+  it('should list every tool with its status and time', async () => {
+    await writeJobSummary({ report, cacheResult, failures: [] })
+
+    const rows = vi.mocked(core.summary.addTable).mock.calls[0][0]
+    expect(rows.slice(1)).toEqual([
+      ['node', 'mise.toml', '22.11.0', '♻️ Restored', '0.8s'],
+      ['python', '.tool-versions', '3.12.7 (3.12)', '⬇️ Installed', '1.5s'],
+      ['go', 'mise.toml', '1.23.0', '✗ Failed (exit code 1)', '3.0s']
+    ])
+  })
+
+  it('should include the output of failed installs and the error', async () => {
+    await writeJobSummary({
+      report,
+      cacheResult,
+      failures: [{ tool: go, exitCode: 1, output: ['error: 404', 'failed'] }],
+      error: 'Failed to install 1 tools'
+    })
+
+    expect(core.summary.addRaw).toHaveBeenCalledWith(
+      '<p><b>Error:</b> Failed to install 1 tools</p>',
+      true
+    )
+    expect(core.summary.addHeading).toHaveBeenCalledWith(
+      'Failed to install go@1.23.0',
+      3
+    )
+    expect(core.summary.addCodeBlock).toHaveBeenCalledWith('error: 404\nfailed')
+  })
+
+  it('should escape HTML in the error and install output', async () => {
+    await writeJobSummary({
+      report,
+      cacheResult,
+      failures: [{ tool: go, exitCode: 1, output: ['<script>x</script>'] }],
+      error: 'Failed to parse <tools> & "env"'
+    })
+
+    expect(core.summary.addRaw).toHaveBeenCalledWith(
+      '<p><b>Error:</b> Failed to parse &lt;tools&gt; &amp; &quot;env&quot;</p>',
+      true
+    )
+    expect(core.summary.addCodeBlock).toHaveBeenCalledWith(
+      '&lt;script&gt;x&lt;/script&gt;'
+    )
+  })
+
+  it('should escape HTML in tool names and versions', async () => {
+    const tool = createMockTool('ubi:<org>/tool', '1.0 & "beta"')
+
+    await writeJobSummary({
+      report: {
+        ...report,
+        tools: [toolReport({ tool, installed: true, installDurationMs: 1000 })]
+      },
+      cacheResult,
+      failures: [{ tool, exitCode: 1, output: [] }]
+    })
+
+    const rows = vi.mocked(core.summary.addTable).mock.calls[0][0]
+    expect(rows[1].slice(0, 3)).toEqual([
+      'ubi:&lt;org&gt;/tool',
+      'mise.toml',
+      '1.0 &amp; &quot;beta&quot;'
+    ])
+    expect(core.summary.addHeading).toHaveBeenCalledWith(
+      'Failed to install ubi:&lt;org&gt;/tool@1.0 &amp; &quot;beta&quot;',
+      3
+    )
+  })
+
+  it('should leave out the cache when it was not restored', async () => {
+    await writeJobSummary({
+      report: { ...report, success: true, tools: [] },
+      failures: []
+    })
+
+    expect(core.summary.addHeading).toHaveBeenCalledWith('mise ✓', 2)
+    expect(core.summary.addList).toHaveBeenCalledWith([
+      'mise version: 2025.1.0',
+      'Duration: 12.3s',
+      'Phases: discovery 0.2s, cache restore 1.5s, install 4.5s'
+    ])
+    expect(core.summary.addTable).not.toHaveBeenCalled()
+  })
+
+  it('should not write a summary when job_summary is false', async () => {
+    vi.mocked(core.getBooleanInput).mockReturnValue(false)
+
+    await writeJobSummary({ report, cacheResult, failures: [] })
+
+    expect(core.summary.write).not.toHaveBeenCalled()
+  })
+
+  it('should warn when the summary cannot be written', async () => {
+    vi.mocked(core.summary.write).mockRejectedValueOnce(
+      new Error('Unable to find environment variable for $GITHUB_STEP_SUMMARY')
+    )
+
+    await writeJobSummary({ report, cacheResult, failures: [] })
+
+    expect(core.warning).toHaveBeenCalledWith(
+      'Failed to write job summary: Error: Unable to find environment variable for $GITHUB_STEP_SUMMARY'
+    )
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  formatPhaseTimings,
+  getPhaseTimings,
+  resetPhaseTimings,
+  timePhase
+} from '../src/timings'
+
+describe('timings', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    resetPhaseTimings()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should add up the time spent in each phase', async () => {
+    const sleep = (ms: number) => async (): Promise<void> => {
+      vi.advanceTimersByTime(ms)
+    }
+
+    await timePhase('discovery', sleep(200))
+    await timePhase('install', sleep(3000))
+    await timePhase('discovery', sleep(100))
+
+    expect(getPhaseTimings()).toEqual({
+      discovery: 300,
+      cacheRestore: 0,
+      miseDownload: 0,
+      install: 3000,
+      cacheSave: 0
+    })
+  })
+
+  it('should time phases that fail', async () => {
+    await expect(
+      timePhase('miseDownload', async () => {
+        vi.advanceTimersByTime(500)
+        throw new Error('HTTP 503')
+      })
+    ).rejects.toThrow('HTTP 503')
+
+    expect(getPhaseTimings().miseDownload).toBe(500)
+  })
+
+  it('should describe the phases that took any time', () => {
+    expect(
+      formatPhaseTimings({
+        discovery: 200,
+        cacheRestore: 1500,
+        miseDownload: 0,
+        install: 41000,
+        cacheSave: 0
+      })
+    ).toBe('discovery 0.2s, cache restore 1.5s, install 41.0s')
+  })
+})
@@ -1,8 +1,18 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as crypto from 'crypto'
 import * as glob from '@actions/glob'
 import * as fs from 'fs'
-import { getAllTools, generateToolHash, toolsToInstallArgs } from '../src/tools'
+import {
+  getAllTools,
+  generateToolHash,
+  getAllPlugins,
+  getToolCacheKeyComponents,
+  resolveToolVersions,
+  toolsToInstallArgs
+} from '../src/tools'
+import { getOutputs } from '../src/outputs'
 import type { Globber } from '@actions/glob'
 
 describe('tools', () => {
@@ -114,7 +124,7 @@ NODE_ENV = "development"
       })
     })
 
-    it('should deduplicate tools with preference order', async () => {
+    it('should deduplicate the same version with preference order', async () => {
       vi.mocked(core.getInput).mockImplementation(name => {
         if (name === 'install_args') return 'node@20.0.0'
         return ''
@@ -132,10 +142,10 @@ NODE_ENV = "development"
 
       vi
         .mocked(fs.promises.readFile)
-        .mockResolvedValueOnce('node 18.17.0\npython 3.11.0') // .tool-versions
+        .mockResolvedValueOnce('node 20.0.0\npython 3.11.0') // .tool-versions
         .mockResolvedValueOnce(`
 [tools]
-node = "19.0.0"
+node = "20.0.0"
 go = "1.21.0"
         `) // mise.toml
 
@@ -160,6 +170,85 @@ go = "1.21.0"
       })
     })
 
+    it('should keep every version of a tool from one entry', async () => {
+      vi.mocked(core.getInput).mockReturnValue('')
+
+      const mockGlobber = {
+        glob: vi
+          .fn()
+          .mockResolvedValueOnce(['.tool-versions'])
+          .mockResolvedValueOnce(['mise.toml'])
+      }
+      vi.mocked(glob.create).mockResolvedValue(
+        mockGlobber as unknown as Globber
+      )
+
+      vi.mocked(fs.promises.readFile)
+        .mockResolvedValueOnce('python 3.11 3.12 # two pythons') // .tool-versions
+        .mockResolvedValueOnce('[tools]\nnode = ["20", "22"]') // mise.toml
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'node', version: '20', source: 'mise.toml' },
+        { name: 'node', version: '22', source: 'mise.toml' },
+        { name: 'python', version: '3.11', source: '.tool-versions' },
+        { name: 'python', version: '3.12', source: '.tool-versions' }
+      ])
+    })
+
+    it('should replace every version from lower precedence sources', async () => {
+      vi.mocked(core.getInput).mockReturnValue('')
+
+      const mockGlobber = {
+        glob: vi
+          .fn()
+          .mockResolvedValueOnce(['.tool-versions'])
+          .mockResolvedValueOnce(['mise.toml'])
+      }
+      vi.mocked(glob.create).mockResolvedValue(
+        mockGlobber as unknown as Globber
+      )
+
+      vi.mocked(fs.promises.readFile)
+        .mockResolvedValueOnce('node 18.17.0\npython 3.11 3.12') // .tool-versions
+        .mockResolvedValueOnce('[tools]\nnode = "20.0.0"') // mise.toml
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'node', version: '20.0.0', source: 'mise.toml' },
+        { name: 'python', version: '3.11', source: '.tool-versions' },
+        { name: 'python', version: '3.12', source: '.tool-versions' }
+      ])
+    })
+
+    it('should let install_args replace the configured versions', async () => {
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'install_args' ? 'node@22.0.0' : ''
+      )
+
+      const mockGlobber = {
+        glob: vi
+          .fn()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce(['mise.toml'])
+      }
+      vi.mocked(glob.create).mockResolvedValue(
+        mockGlobber as unknown as Globber
+      )
+
+      vi.mocked(fs.promises.readFile).mockResolvedValueOnce(
+        '[tools]\nnode = ["18", "20"]'
+      )
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'node', version: '22.0.0', source: 'install_args' }
+      ])
+    })
+
     it('should handle empty configurations gracefully', async () => {
       vi.mocked(core.getInput).mockReturnValue('')
       vi.mocked(glob.create).mockResolvedValue({
@@ -229,33 +318,469 @@ go = "1.21.0"
     })
   })
 
+  describe('config file discovery', () => {
+    const mockConfigFiles = (
+      files: Record<string, string>,
+      inputs: Record<string, string> = {}
+    ): void => {
+      vi.mocked(core.getInput).mockImplementation(name => inputs[name] || '')
+
+      const mockGlobber = {
+        glob: vi
+          .fn()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce(Object.keys(files))
+      }
+      vi.mocked(glob.create).mockResolvedValue(
+        mockGlobber as unknown as Globber
+      )
+
+      vi.mocked(fs.promises.readFile).mockImplementation(async filePath => {
+        return files[filePath as string]
+      })
+    }
+
+    afterEach(() => {
+      delete process.env.MISE_ENV
+    })
+
+    it('should look for .tool-versions in the working directory and its parents', async () => {
+      mockConfigFiles({}, { working_directory: '/repo/app' })
+
+      await getAllTools()
+
+      const patterns = vi.mocked(glob.create).mock.calls[0][0].split('\n')
+      expect(patterns).toEqual([
+        '/repo/app/.tool-versions',
+        '/repo/.tool-versions',
+        '/.tool-versions'
+      ])
+    })
+
+    it('should look for every config file name mise reads', async () => {
+      mockConfigFiles({}, { working_directory: '/repo' })
+
+      await getAllTools()
+
+      const patterns = vi.mocked(glob.create).mock.calls[1][0].split('\n')
+      expect(patterns.slice(0, 16)).toEqual([
+        '/repo/.config/mise/conf.d/*.toml',
+        '/repo/.config/mise/config.toml',
+        '/repo/.config/mise/mise.toml',
+        '/repo/.config/mise.toml',
+        '/repo/.mise/config.toml',
+        '/repo/mise/config.toml',
+        '/repo/.rtx.toml',
+        '/repo/mise.toml',
+        '/repo/.mise.toml',
+        '/repo/.config/mise/config.local.toml',
+        '/repo/.config/mise/mise.local.toml',
+        '/repo/.config/mise.local.toml',
+        '/repo/.mise/config.local.toml',
+        '/repo/.rtx.local.toml',
+        '/repo/mise.local.toml',
+        '/repo/.mise.local.toml'
+      ])
+      expect(patterns).toContain('/mise.toml')
+      expect(patterns).not.toContain('**/mise.toml')
+    })
+
+    it('should look for MISE_ENV specific config files when set', async () => {
+      process.env.MISE_ENV = 'ci,staging'
+      mockConfigFiles({}, { working_directory: '/repo' })
+
+      await getAllTools()
+
+      const patterns = vi.mocked(glob.create).mock.calls[1][0].split('\n')
+      expect(patterns).toContain('/repo/mise.ci.toml')
+      expect(patterns).toContain('/repo/.config/mise/config.ci.toml')
+      expect(patterns).toContain('/repo/mise.staging.local.toml')
+    })
+
+    it('should record the config file each tool came from', async () => {
+      mockConfigFiles({
+        '/repo/.config/mise.toml': '[tools]\nnode = "20"',
+        '/repo/.config/mise/config.toml': '[tools]\npython = "3.12"',
+        '/repo/mise/config.toml': '[tools]\ngo = "1.21.0"',
+        '/repo/.config/mise/conf.d/rust.toml': '[tools]\nrust = "1.80"'
+      })
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'go', version: '1.21.0', source: 'mise/config.toml' },
+        { name: 'node', version: '20', source: '.config/mise.toml' },
+        {
+          name: 'python',
+          version: '3.12',
+          source: '.config/mise/config.toml'
+        },
+        {
+          name: 'rust',
+          version: '1.80',
+          source: '.config/mise/conf.d/rust.toml'
+        }
+      ])
+    })
+
+    it('should prefer config files in mise precedence order', async () => {
+      process.env.MISE_ENV = 'ci'
+      mockConfigFiles({
+        '/repo/mise.ci.toml': '[tools]\nnode = "22"',
+        '/repo/mise.local.toml': '[tools]\nnode = "22"\npython = "3.12"',
+        '/repo/mise.toml':
+          '[tools]\nnode = "22"\npython = "3.12"\ngo = "1.21.0"',
+        '/repo/.config/mise.toml': '[tools]\ngo = "1.21.0"'
+      })
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'go', version: '1.21.0', source: 'mise.toml' },
+        { name: 'node', version: '22', source: 'mise.ci.toml' },
+        { name: 'python', version: '3.12', source: 'mise.local.toml' }
+      ])
+    })
+
+    it('should let config files in deeper directories override their parents', async () => {
+      const toolVersions = '/repo/app/.tool-versions'
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'working_directory' ? '/repo/app' : ''
+      )
+      vi.mocked(glob.create).mockResolvedValue({
+        glob: vi
+          .fn()
+          .mockResolvedValueOnce([toolVersions])
+          .mockResolvedValueOnce(['/repo/mise.local.toml', '/mise.toml'])
+      } as unknown as Globber)
+      vi.mocked(fs.promises.readFile).mockImplementation(async filePath => {
+        switch (filePath) {
+          case toolVersions:
+            return 'node 20.0.0'
+          case '/repo/mise.local.toml':
+            return '[tools]\nnode = "20.0.0"\npython = "3.12"'
+          default:
+            return '[tools]\npython = "3.12"\ngo = "1.21.0"'
+        }
+      })
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'go', version: '1.21.0', source: 'mise.toml' },
+        { name: 'node', version: '20.0.0', source: '.tool-versions' },
+        { name: 'python', version: '3.12', source: 'mise.local.toml' }
+      ])
+    })
+
+    it('should only install the version of the deepest config file', async () => {
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'working_directory' ? '/repo/app' : ''
+      )
+      vi.mocked(glob.create).mockResolvedValue({
+        glob: vi
+          .fn()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce(['/repo/mise.toml', '/repo/app/mise.toml'])
+      } as unknown as Globber)
+      vi.mocked(fs.promises.readFile).mockImplementation(async filePath =>
+        filePath === '/repo/app/mise.toml'
+          ? '[tools]\nnode = "22"'
+          : '[tools]\nnode = "20"'
+      )
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'node', version: '22', source: 'mise.toml' }
+      ])
+    })
+
+    it('should prefer versions from the lockfile next to a config file', async () => {
+      mockConfigFiles({
+        '/repo/mise.toml': '[tools]\nnode = "20"\npython = "3.12"',
+        '/repo/mise.lock': '[[tools.node]]\nversion = "20.11.1"'
+      })
+      vi.mocked(fs.existsSync).mockImplementation(
+        filePath => filePath === '/repo/mise.lock'
+      )
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        {
+          name: 'node',
+          version: '20.11.1',
+          source: 'mise.toml',
+          requestedVersion: '20',
+          lock: {}
+        },
+        { name: 'python', version: '3.12', source: 'mise.toml' }
+      ])
+    })
+
+    it('should use config_globs instead of walking parent directories', async () => {
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'config_globs'
+          ? 'services/*/.tool-versions\n  services/*/mise.toml  \n'
+          : ''
+      )
+      vi.mocked(glob.create).mockResolvedValue({
+        glob: vi
+          .fn()
+          .mockResolvedValue([
+            '/repo/services/api/.tool-versions',
+            '/repo/services/web/mise.toml',
+            '/repo/services/web/package.json'
+          ])
+      } as unknown as Globber)
+      vi.mocked(fs.promises.readFile).mockImplementation(async filePath =>
+        filePath === '/repo/services/web/mise.toml'
+          ? '[tools]\nnode = "22"'
+          : 'python 3.12.0'
+      )
+
+      const result = await getAllTools()
+
+      expect(glob.create).toHaveBeenCalledOnce()
+      expect(glob.create).toHaveBeenCalledWith(
+        'services/*/.tool-versions\nservices/*/mise.toml',
+        { followSymbolicLinks: false }
+      )
+      expect(result).toEqual([
+        { name: 'node', version: '22', source: 'mise.toml' },
+        { name: 'python', version: '3.12.0', source: '.tool-versions' }
+      ])
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Ignoring /repo/services/web/package.json')
+      )
+    })
+
+    it('should keep the versions of every project matched by config_globs', async () => {
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'config_globs' ? 'services/*/mise.toml' : ''
+      )
+      vi.mocked(glob.create).mockResolvedValue({
+        glob: vi
+          .fn()
+          .mockResolvedValue([
+            '/repo/services/api/mise.toml',
+            '/repo/services/web/mise.toml'
+          ])
+      } as unknown as Globber)
+      vi.mocked(fs.promises.readFile).mockImplementation(async filePath =>
+        filePath === '/repo/services/web/mise.toml'
+          ? '[tools]\nnode = "22"'
+          : '[tools]\nnode = "20"'
+      )
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'node', version: '20', source: 'mise.toml' },
+        { name: 'node', version: '22', source: 'mise.toml' }
+      ])
+    })
+  })
+
+  describe('resolveToolVersions', () => {
+    const mockLatest = (versions: Record<string, string>): void => {
+      vi.mocked(exec.getExecOutput).mockImplementation(async (_cmd, args) => {
+        const version = versions[args![1]]
+        return version
+          ? { exitCode: 0, stdout: `${version}\n`, stderr: '' }
+          : { exitCode: 1, stdout: '', stderr: 'no versions found' }
+      })
+    }
+
+    it('should resolve fuzzy versions with mise latest', async () => {
+      mockLatest({
+        'node@20': '20.18.0',
+        python: '3.13.0',
+        'go@1.21.0': '1.21.0'
+      })
+
+      const result = await resolveToolVersions([
+        createMockTool('node', '20'),
+        createMockTool('python', 'latest'),
+        createMockTool('go', '1.21.0')
+      ])
+
+      expect(result).toEqual([
+        {
+          name: 'go',
+          version: '1.21.0',
+          source: 'mise.toml'
+        },
+        {
+          name: 'node',
+          version: '20.18.0',
+          source: 'mise.toml',
+          requestedVersion: '20'
+        },
+        {
+          name: 'python',
+          version: '3.13.0',
+          source: 'mise.toml',
+          requestedVersion: 'latest'
+        }
+      ])
+      expect(exec.getExecOutput).toHaveBeenCalledWith(
+        'mise',
+        ['latest', 'node@20'],
+        expect.objectContaining({ ignoreReturnCode: true })
+      )
+    })
+
+    it('should expose the resolved versions as an output', async () => {
+      mockLatest({ 'node@lts': '22.11.0', 'node@22': '22.11.0' })
+
+      const result = await resolveToolVersions([
+        createMockTool('node', 'lts'),
+        createMockTool('node', '22')
+      ])
+
+      expect(result).toHaveLength(1)
+      expect(getOutputs().resolvedVersions).toBe(
+        JSON.stringify({ 'node@lts': '22.11.0', 'node@22': '22.11.0' })
+      )
+    })
+
+    it('should keep the version when it cannot be resolved', async () => {
+      mockLatest({})
+
+      const tool = createMockTool('node', '20')
+      const result = await resolveToolVersions([tool])
+
+      expect(result).toEqual([tool])
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to resolve node@20')
+      )
+    })
+
+    it('should not resolve locked versions', async () => {
+      const tool = {
+        ...createMockTool('node', '20.11.1'),
+        lock: { backend: 'core:node' }
+      }
+
+      const result = await resolveToolVersions([tool])
+
+      expect(result).toEqual([tool])
+      expect(exec.getExecOutput).not.toHaveBeenCalled()
+    })
+
+    it('should not resolve ref, path and system versions', async () => {
+      const tools = [
+        createMockTool('node', 'ref:main'),
+        createMockTool('python', 'system')
+      ]
+
+      const result = await resolveToolVersions(tools)
+
+      expect(result).toEqual(tools)
+      expect(exec.getExecOutput).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getToolCacheKeyComponents', () => {
+    afterEach(() => {
+      delete process.env.MISE_NODE_COMPILE
+      delete process.env.PYTHON_CONFIGURE_OPTS
+      delete process.env.CFLAGS
+    })
+
+    it('should default to no options, env or lock', () => {
+      const tool = createMockTool('node', '18.17.0')
+
+      expect(getToolCacheKeyComponents(tool, 'linux-x64')).toEqual({
+        name: 'node',
+        version: '18.17.0',
+        backend: 'default',
+        target: 'linux-x64',
+        options: {},
+        env: {},
+        lock: null
+      })
+    })
+
+    it('should include the backend, options and lock', () => {
+      const tool = {
+        ...createMockTool('asdf:python', '3.12.7'),
+        options: { virtualenv: '.venv' },
+        lock: { checksum: 'sha256:abc' }
+      }
+
+      expect(getToolCacheKeyComponents(tool, 'linux-x64-musl')).toMatchObject({
+        backend: 'asdf',
+        target: 'linux-x64-musl',
+        options: { virtualenv: '.venv' },
+        lock: 'sha256:abc'
+      })
+    })
+
+    it('should prefer the backend recorded in mise.lock', () => {
+      const tool = {
+        ...createMockTool('jq', '1.7.1'),
+        lock: { backend: 'aqua:jqlang/jq' }
+      }
+
+      expect(getToolCacheKeyComponents(tool, 'linux-x64').backend).toBe(
+        'aqua:jqlang/jq'
+      )
+    })
+
+    it('should include the build environment of the tool', () => {
+      process.env.MISE_NODE_COMPILE = '1'
+      process.env.PYTHON_CONFIGURE_OPTS = '--enable-shared'
+      process.env.CFLAGS = '-O2'
+
+      expect(
+        getToolCacheKeyComponents(createMockTool('node', '20'), 'linux-x64').env
+      ).toEqual({ MISE_NODE_COMPILE: '1', CFLAGS: '-O2' })
+      expect(
+        getToolCacheKeyComponents(createMockTool('python', '3.12'), 'linux-x64')
+          .env
+      ).toEqual({ PYTHON_CONFIGURE_OPTS: '--enable-shared', CFLAGS: '-O2' })
+    })
+  })
+
   describe('generateToolHash', () => {
-    it('should generate consistent hash for tool', () => {
+    const hashedInput = (): string =>
+      vi.mocked(crypto.createHash('sha256').update).mock.calls[0][0] as string
+
+    it('should prefix the hash with the tool name and version', () => {
       const tool = createMockTool('node', '18.17.0')
 
-      const hash = generateToolHash(tool)
+      const hash = generateToolHash(tool, 'linux-x64')
 
-      expect(hash).toBe('node-18.17.0')
+      expect(hash).toBe('node-18.17.0-mock-hash')
+      expect(crypto.createHash).toHaveBeenCalledWith('sha256')
     })
 
-    it('should generate different hashes for different tools', () => {
-      const tool1 = createMockTool('node', '18.17.0')
-      const tool2 = createMockTool('python', '3.11.0')
+    it('should hash the key components with sorted keys', () => {
+      const tool = {
+        ...createMockTool('python', '3.12.7'),
+        options: { virtualenv: '.venv', b: { z: 1, a: 2 } }
+      }
 
-      const hash1 = generateToolHash(tool1)
-      const hash2 = generateToolHash(tool2)
+      generateToolHash(tool, 'linux-x64')
 
-      expect(hash1).not.toBe(hash2)
+      expect(hashedInput()).toBe(
+        '{"backend":"default","env":{},"lock":null,"name":"python",' +
+          '"options":{"b":{"a":2,"z":1},"virtualenv":".venv"},' +
+          '"target":"linux-x64","version":"3.12.7"}'
+      )
     })
 
-    it('should generate different hashes for same tool with different versions', () => {
-      const tool1 = createMockTool('node', '18.17.0')
-      const tool2 = createMockTool('node', '20.0.0')
+    it('should hash the same options the same way in any order', () => {
+      const tool = createMockTool('python', '3.12.7')
 
-      const hash1 = generateToolHash(tool1)
-      const hash2 = generateToolHash(tool2)
+      generateToolHash({ ...tool, options: { a: 1, b: 2 } }, 'linux-x64')
+      generateToolHash({ ...tool, options: { b: 2, a: 1 } }, 'linux-x64')
 
-      expect(hash1).not.toBe(hash2)
+      const calls = vi.mocked(crypto.createHash('sha256').update).mock.calls
+      expect(calls[0][0]).toBe(calls[1][0])
     })
   })
 
@@ -328,10 +853,43 @@ something = "value"
       expect(result).toContainEqual({
         name: 'python',
         version: '3.11.0',
-        source: 'mise.toml'
+        source: 'mise.toml',
+        options: { source: 'conda' }
       })
     })
 
+    it('should read the optional marker from tool tables', async () => {
+      vi.mocked(core.getInput).mockReturnValue('')
+
+      const mockGlobber = {
+        glob: vi
+          .fn()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce(['mise.toml'])
+      }
+      vi.mocked(glob.create).mockResolvedValue(
+        mockGlobber as unknown as Globber
+      )
+
+      vi.mocked(fs.promises.readFile).mockResolvedValue(`
+[tools]
+node = "20"
+shellcheck = { version = "0.10.0", optional = true }
+      `)
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'node', version: '20', source: 'mise.toml' },
+        {
+          name: 'shellcheck',
+          version: '0.10.0',
+          source: 'mise.toml',
+          optional: true
+        }
+      ])
+    })
+
     it('should handle malformed TOML gracefully', async () => {
       vi.mocked(core.getInput).mockReturnValue('')
 
@@ -354,12 +912,236 @@ python = "3.11.0"
 
       const result = await getAllTools()
 
-      expect(result).toHaveLength(1)
-      expect(result[0]).toEqual({
-        name: 'python',
-        version: '3.11.0',
-        source: 'mise.toml'
+      expect(result).toHaveLength(0)
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to parse mise.toml')
+      )
+    })
+
+    it('should parse backend-prefixed and quoted tool names', async () => {
+      vi.mocked(core.getInput).mockReturnValue('')
+
+      const mockGlobber = {
+        glob: vi
+          .fn()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce(['mise.toml'])
+      }
+      vi.mocked(glob.create).mockResolvedValue(
+        mockGlobber as unknown as Globber
+      )
+
+      vi.mocked(fs.promises.readFile).mockResolvedValue(`
+[tools]
+"npm:prettier" = "3.3.3"
+"aqua:cli/cli" = "2.60.0"
+'cargo:ripgrep' = "14.1.1"
+      `)
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'aqua:cli/cli', version: '2.60.0', source: 'mise.toml' },
+        { name: 'cargo:ripgrep', version: '14.1.1', source: 'mise.toml' },
+        { name: 'npm:prettier', version: '3.3.3', source: 'mise.toml' }
+      ])
+    })
+
+    it('should parse multi-line inline tables and [tools.<name>] tables', async () => {
+      vi.mocked(core.getInput).mockReturnValue('')
+
+      const mockGlobber = {
+        glob: vi
+          .fn()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce(['mise.toml'])
+      }
+      vi.mocked(glob.create).mockResolvedValue(
+        mockGlobber as unknown as Globber
+      )
+
+      vi.mocked(fs.promises.readFile).mockResolvedValue(`
+[tools]
+python = {
+  version = "3.12",
+  virtualenv = ".venv"
+}
+
+[tools.go]
+version = "1.21.0"
+      `)
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'go', version: '1.21.0', source: 'mise.toml' },
+        {
+          name: 'python',
+          version: '3.12',
+          source: 'mise.toml',
+          options: { virtualenv: '.venv' }
+        }
+      ])
+    })
+
+    it('should parse array versions', async () => {
+      vi.mocked(core.getInput).mockReturnValue('')
+
+      const mockGlobber = {
+        glob: vi
+          .fn()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce(['mise.toml'])
+      }
+      vi.mocked(glob.create).mockResolvedValue(
+        mockGlobber as unknown as Globber
+      )
+
+      vi.mocked(fs.promises.readFile).mockResolvedValue(`
+[tools]
+node = ["20", "22"]
+python = [{ version = "3.11" }]
+      `)
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'node', version: '20', source: 'mise.toml' },
+        { name: 'node', version: '22', source: 'mise.toml' },
+        { name: 'python', version: '3.11', source: 'mise.toml' }
+      ])
+    })
+
+    it('should parse dotted tools keys outside of a [tools] table', async () => {
+      vi.mocked(core.getInput).mockReturnValue('')
+
+      const mockGlobber = {
+        glob: vi
+          .fn()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce(['mise.toml'])
+      }
+      vi.mocked(glob.create).mockResolvedValue(
+        mockGlobber as unknown as Globber
+      )
+
+      vi.mocked(fs.promises.readFile).mockResolvedValue(`
+min_version = "2024.11.0"
+tools.node = "20"
+tools."npm:prettier" = "3.3.3"
+
+[env]
+NODE_ENV = "production"
+      `)
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'node', version: '20', source: 'mise.toml' },
+        { name: 'npm:prettier', version: '3.3.3', source: 'mise.toml' }
+      ])
+    })
+
+    it('should skip tool entries without a version', async () => {
+      vi.mocked(core.getInput).mockReturnValue('')
+
+      const mockGlobber = {
+        glob: vi
+          .fn()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce(['mise.toml'])
+      }
+      vi.mocked(glob.create).mockResolvedValue(
+        mockGlobber as unknown as Globber
+      )
+
+      vi.mocked(fs.promises.readFile).mockResolvedValue(`
+[tools]
+node = "20"
+python = { virtualenv = ".venv" }
+go = ""
+      `)
+
+      const result = await getAllTools()
+
+      expect(result).toEqual([
+        { name: 'node', version: '20', source: 'mise.toml' }
+      ])
+    })
+  })
+
+  describe('getAllPlugins', () => {
+    const mockConfigFiles = (files: Record<string, string>): void => {
+      vi.mocked(core.getInput).mockReturnValue('')
+      vi.mocked(glob.create).mockResolvedValue({
+        glob: vi
+          .fn()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce(Object.keys(files))
+      } as unknown as Globber)
+      vi.mocked(fs.promises.readFile).mockImplementation(
+        (async (file: fs.PathLike) =>
+          files[file.toString()]) as unknown as typeof fs.promises.readFile
+      )
+    }
+
+    it('should parse plugin repositories and refs', async () => {
+      mockConfigFiles({
+        'mise.toml': `
+[plugins]
+elixir = "https://github.com/my-org/mise-elixir.git#v1.0.0"
+erlang = "https://github.com/my-org/mise-erlang.git"
+
+[tools]
+elixir = "1.17"
+        `
+      })
+
+      const result = await getAllPlugins()
+
+      expect(result).toEqual([
+        {
+          name: 'elixir',
+          repository: 'https://github.com/my-org/mise-elixir.git',
+          ref: 'v1.0.0'
+        },
+        {
+          name: 'erlang',
+          repository: 'https://github.com/my-org/mise-erlang.git'
+        }
+      ])
+    })
+
+    it('should prefer plugins from config files with higher precedence', async () => {
+      mockConfigFiles({
+        '/repo/mise.toml': `
+[plugins]
+elixir = "https://github.com/my-org/mise-elixir.git#v1.0.0"
+        `,
+        '/repo/app/mise.toml': `
+[plugins]
+elixir = "https://github.com/my-org/mise-elixir.git#v2.0.0"
+        `
       })
+
+      const result = await getAllPlugins()
+
+      expect(result).toEqual([
+        {
+          name: 'elixir',
+          repository: 'https://github.com/my-org/mise-elixir.git',
+          ref: 'v2.0.0'
+        }
+      ])
+    })
+
+    it('should skip files that fail to parse', async () => {
+      mockConfigFiles({ 'mise.toml': '[plugins' })
+
+      const result = await getAllPlugins()
+
+      expect(result).toEqual([])
+      expect(core.warning).not.toHaveBeenCalled()
     })
   })
 })
@@ -1,18 +1,43 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import * as core from '@actions/core'
 import * as exec from '@actions/exec'
+import { HttpClient, HttpClientResponse } from '@actions/http-client'
+import * as crypto from 'crypto'
 import * as fs from 'fs'
 import * as os from 'os'
+import * as path from 'path'
+import { Readable } from 'stream'
 import {
   miseDir,
+  miseCacheDir,
   getSystemInfo,
-  zstdInstalled,
+  downloadFile,
+  fetchText,
   latestMiseVersion,
+  sha256File,
   writeFile,
   getWorkingDirectory
 } from '../src/utils'
 
+const { mockGet } = vi.hoisted(() => ({ mockGet: vi.fn() }))
+
+vi.mock('@actions/http-client', async () => ({
+  ...(await vi.importActual<object>('@actions/http-client')),
+  HttpClient: vi.fn().mockImplementation(() => ({ get: mockGet }))
+}))
+
 describe('utils', () => {
+  const mockHttpGet = (
+    statusCode: number,
+    body: string,
+    headers: Record<string, string> = {}
+  ): void => {
+    mockGet.mockResolvedValue({
+      message: Object.assign(Readable.from([body]), { statusCode, headers }),
+      readBody: vi.fn().mockResolvedValue(body)
+    } as unknown as HttpClientResponse)
+  }
+
   beforeEach(() => {
     vi.clearAllMocks()
   })
@@ -67,6 +92,88 @@ describe('utils', () => {
 
       expect(result).toBe('/home/user/.local/share/mise')
     })
+
+    it('should prefer the mise_dir input over the environment', () => {
+      vi.mocked(core.getState).mockReturnValue('')
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'mise_dir' ? '/input/mise' : ''
+      )
+      process.env.MISE_DATA_DIR = '/custom/mise/dir'
+      process.env.XDG_DATA_HOME = '/xdg/data'
+
+      const result = miseDir()
+
+      expect(result).toBe('/input/mise')
+      delete process.env.MISE_DATA_DIR
+      delete process.env.XDG_DATA_HOME
+    })
+
+    it('should resolve a relative mise_dir input', () => {
+      vi.mocked(core.getState).mockReturnValue('')
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'mise_dir' ? '.mise' : ''
+      )
+
+      const result = miseDir()
+
+      expect(result).toBe(`${process.cwd()}/.mise`)
+    })
+
+    it('should prefer saved state over the mise_dir input', () => {
+      vi.mocked(core.getState).mockReturnValue('/cached/mise/dir')
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'mise_dir' ? '/input/mise' : ''
+      )
+
+      const result = miseDir()
+
+      expect(result).toBe('/cached/mise/dir')
+    })
+
+    it('should prefer MISE_DATA_DIR over XDG_DATA_HOME', () => {
+      vi.mocked(core.getState).mockReturnValue('')
+      vi.mocked(core.getInput).mockReturnValue('')
+      process.env.MISE_DATA_DIR = '/custom/mise/dir'
+      process.env.XDG_DATA_HOME = '/xdg/data'
+
+      const result = miseDir()
+
+      expect(result).toBe('/custom/mise/dir')
+      delete process.env.MISE_DATA_DIR
+      delete process.env.XDG_DATA_HOME
+    })
+  })
+
+  describe('miseCacheDir', () => {
+    it('should prefer MISE_CACHE_DIR', () => {
+      process.env.MISE_CACHE_DIR = '/custom/cache'
+      process.env.XDG_CACHE_HOME = '/xdg/cache'
+
+      expect(miseCacheDir()).toBe('/custom/cache')
+      delete process.env.MISE_CACHE_DIR
+      delete process.env.XDG_CACHE_HOME
+    })
+
+    it('should return XDG_CACHE_HOME/mise when set', () => {
+      process.env.XDG_CACHE_HOME = '/xdg/cache'
+
+      expect(miseCacheDir()).toBe('/xdg/cache/mise')
+      delete process.env.XDG_CACHE_HOME
+    })
+
+    it('should default to ~/.cache/mise', () => {
+      vi.mocked(os.homedir).mockReturnValue('/home/user')
+
+      expect(miseCacheDir()).toBe('/home/user/.cache/mise')
+    })
+
+    it('should default to ~/Library/Caches/mise on macOS', () => {
+      vi.mocked(os.homedir).mockReturnValue('/Users/user')
+      Object.defineProperty(process, 'platform', { value: 'darwin' })
+
+      expect(miseCacheDir()).toBe('/Users/user/Library/Caches/mise')
+      Object.defineProperty(process, 'platform', { value: 'linux' })
+    })
   })
 
   describe('getSystemInfo', () => {
@@ -146,52 +253,182 @@ describe('utils', () => {
     })
   })
 
-  describe('zstdInstalled', () => {
-    it('should return true when zstd is installed', async () => {
-      vi.mocked(exec.exec).mockResolvedValue(0)
+  describe('latestMiseVersion', () => {
+    it('should return latest version from API', async () => {
+      mockHttpGet(200, 'v2024.1.1\n')
 
-      const result = await zstdInstalled()
+      const result = await latestMiseVersion()
 
-      expect(result).toBe(true)
-      expect(exec.exec).toHaveBeenCalledWith('zstd', ['--version'])
+      expect(result).toBe('v2024.1.1')
+      expect(HttpClient).toHaveBeenCalledWith('mise-action')
+      expect(mockGet).toHaveBeenCalledWith(
+        'https://mise.jdx.dev/VERSION',
+        undefined
+      )
     })
 
-    it('should return false when zstd is not installed', async () => {
-      vi.mocked(exec.exec).mockRejectedValue(new Error('Command not found'))
+    it('should trim whitespace from version', async () => {
+      mockHttpGet(200, '  v2024.1.2  \n\n')
 
-      const result = await zstdInstalled()
+      const result = await latestMiseVersion()
 
-      expect(result).toBe(false)
+      expect(result).toBe('v2024.1.2')
     })
   })
 
-  describe('latestMiseVersion', () => {
-    it('should return latest version from API', async () => {
-      vi.mocked(exec.getExecOutput).mockResolvedValue({
-        exitCode: 0,
-        stdout: 'v2024.1.1\n',
-        stderr: ''
+  describe('fetchText', () => {
+    beforeEach(() => {
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'retry_backoff' ? '0' : ''
+      )
+    })
+
+    it('should return the response body', async () => {
+      mockHttpGet(200, 'body')
+
+      const result = await fetchText('https://example.com/file.txt')
+
+      expect(result).toBe('body')
+    })
+
+    it('should send the given headers', async () => {
+      mockHttpGet(200, '[]')
+
+      await fetchText('https://api.github.com/repos/jdx/mise/releases', {
+        accept: 'application/vnd.github+json'
       })
 
-      const result = await latestMiseVersion()
+      expect(mockGet).toHaveBeenCalledWith(
+        'https://api.github.com/repos/jdx/mise/releases',
+        { accept: 'application/vnd.github+json' }
+      )
+    })
 
-      expect(result).toBe('v2024.1.1')
-      expect(exec.getExecOutput).toHaveBeenCalledWith('curl', [
-        '-fsSL',
-        'https://mise.jdx.dev/VERSION'
-      ])
+    it('should fail on HTTP errors', async () => {
+      mockHttpGet(503, 'Service Unavailable')
+
+      await expect(fetchText('https://example.com/file.txt')).rejects.toThrow(
+        'Failed to fetch https://example.com/file.txt: HTTP 503'
+      )
+      expect(mockGet).toHaveBeenCalledTimes(3)
     })
 
-    it('should trim whitespace from version', async () => {
-      vi.mocked(exec.getExecOutput).mockResolvedValue({
-        exitCode: 0,
-        stdout: '  v2024.1.2  \n\n',
-        stderr: ''
+    it('should retry server errors', async () => {
+      mockHttpGet(200, 'body')
+      mockGet.mockResolvedValueOnce({
+        message: { statusCode: 502 },
+        readBody: vi.fn().mockResolvedValue('Bad Gateway')
       })
 
-      const result = await latestMiseVersion()
+      const result = await fetchText('https://example.com/file.txt')
 
-      expect(result).toBe('v2024.1.2')
+      expect(result).toBe('body')
+      expect(mockGet).toHaveBeenCalledTimes(2)
+      expect(core.info).toHaveBeenCalledWith(
+        expect.stringContaining('Fetching https://example.com/file.txt failed')
+      )
+    })
+
+    it('should not retry client errors', async () => {
+      mockHttpGet(404, 'Not Found')
+
+      await expect(fetchText('https://example.com/file.txt')).rejects.toThrow(
+        'HTTP 404'
+      )
+      expect(mockGet).toHaveBeenCalledTimes(1)
+    })
+
+    it('should retry GitHub rate limits', async () => {
+      mockHttpGet(403, 'API rate limit exceeded', {
+        'x-ratelimit-remaining': '0'
+      })
+
+      await expect(fetchText('https://api.github.com/x')).rejects.toThrow(
+        'Failed to fetch https://api.github.com/x: HTTP 403'
+      )
+      expect(mockGet).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not retry other forbidden requests', async () => {
+      mockHttpGet(403, 'Forbidden', { 'x-ratelimit-remaining': '42' })
+
+      await expect(fetchText('https://api.github.com/x')).rejects.toThrow(
+        'HTTP 403'
+      )
+      expect(mockGet).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('downloadFile', () => {
+    const url = 'https://example.com/mise/mise-v2025.1.0-linux-x64.tar.gz'
+    const runnerTemp = process.env.RUNNER_TEMP
+    let tempDir: string
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync('/tmp/mise-download-')
+      process.env.RUNNER_TEMP = tempDir
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'retry_backoff' ? '0' : ''
+      )
+
+      return () => {
+        process.env.RUNNER_TEMP = runnerTemp
+        fs.rmSync(tempDir, { recursive: true, force: true })
+      }
+    })
+
+    it('should save the response body to the runner temp directory', async () => {
+      mockHttpGet(200, 'archive')
+
+      const result = await downloadFile(url)
+
+      expect(result).toBe(path.join(tempDir, 'mise-v2025.1.0-linux-x64.tar.gz'))
+      expect(fs.readFileSync(result, 'utf8')).toBe('archive')
+    })
+
+    it('should make exactly retry_attempts attempts', async () => {
+      vi.mocked(core.getInput).mockImplementation(name =>
+        name === 'retry_attempts' ? '1' : ''
+      )
+      mockHttpGet(503, 'Service Unavailable')
+
+      await expect(downloadFile(url)).rejects.toThrow(
+        `Failed to download ${url}: HTTP 503`
+      )
+      expect(mockGet).toHaveBeenCalledTimes(1)
+    })
+
+    it('should retry server errors', async () => {
+      mockHttpGet(200, 'archive')
+      mockGet.mockResolvedValueOnce({
+        message: { statusCode: 502, headers: {} },
+        readBody: vi.fn().mockResolvedValue('Bad Gateway')
+      })
+
+      await downloadFile(url)
+
+      expect(mockGet).toHaveBeenCalledTimes(2)
+    })
+
+    it('should report network errors', async () => {
+      mockGet.mockRejectedValue(new Error('getaddrinfo ENOTFOUND example.com'))
+
+      await expect(downloadFile(url)).rejects.toThrow(
+        `Failed to download ${url}: Error: getaddrinfo ENOTFOUND example.com`
+      )
+    })
+  })
+
+  describe('sha256File', () => {
+    it('should hash the file content', async () => {
+      const content = Buffer.from('mise')
+      vi.mocked(fs.promises.readFile).mockResolvedValue(content)
+
+      const result = await sha256File('/tmp/mise.tar.gz')
+
+      expect(result).toBe('mock-hash')
+      expect(fs.promises.readFile).toHaveBeenCalledWith('/tmp/mise.tar.gz')
+      expect(crypto.createHash).toHaveBeenCalledWith('sha256')
     })
   })
 
@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as utils from '../src/utils'
+import {
+  miseVersionSatisfies,
+  readVersionFile,
+  resolveMiseVersion
+} from '../src/version'
+
+vi.mock('../src/utils')
+
+describe('version', () => {
+  const release = (tag: string, prerelease = false) => ({
+    tag_name: tag,
+    draft: false,
+    prerelease
+  })
+
+  const mockReleases = (...pages: ReturnType<typeof release>[][]): void => {
+    vi.mocked(utils.fetchText).mockImplementation(async url => {
+      const page = Number(new URL(url).searchParams.get('page'))
+      return JSON.stringify(pages[page - 1] ?? [])
+    })
+  }
+
+  const mockInputs = (inputs: Record<string, string>): void => {
+    vi.mocked(core.getInput).mockImplementation(name => inputs[name] || '')
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(utils.miseCacheDir).mockReturnValue('/tmp/test-cache')
+    vi.mocked(utils.getWorkingDirectory).mockReturnValue('/repo')
+    mockInputs({})
+  })
+
+  describe('resolveMiseVersion', () => {
+    const lookupPath = '/tmp/test-cache/mise-action-latest.json'
+
+    it('should strip the v prefix of pinned versions', async () => {
+      const result = await resolveMiseVersion('v2024.1.1')
+
+      expect(result).toBe('2024.1.1')
+      expect(utils.fetchText).not.toHaveBeenCalled()
+    })
+
+    it('should look up the latest version', async () => {
+      vi.mocked(fs.promises.readFile).mockRejectedValue(new Error('ENOENT'))
+      vi.mocked(utils.latestMiseVersion).mockResolvedValue('v2025.1.0')
+
+      const result = await resolveMiseVersion('latest')
+
+      expect(result).toBe('2025.1.0')
+      expect(fs.promises.writeFile).toHaveBeenCalledWith(
+        lookupPath,
+        expect.stringContaining('"version":"2025.1.0"')
+      )
+    })
+
+    it('should reuse a recent lookup of the latest version', async () => {
+      vi.mocked(fs.promises.readFile).mockResolvedValue(
+        JSON.stringify({ version: '2025.1.0', fetchedAt: Date.now() - 1000 })
+      )
+
+      const result = await resolveMiseVersion()
+
+      expect(result).toBe('2025.1.0')
+      expect(fs.promises.readFile).toHaveBeenCalledWith(lookupPath, 'utf8')
+      expect(utils.latestMiseVersion).not.toHaveBeenCalled()
+    })
+
+    it('should look up the latest version again once the lookup expires', async () => {
+      vi.mocked(fs.promises.readFile).mockResolvedValue(
+        JSON.stringify({
+          version: '2025.1.0',
+          fetchedAt: Date.now() - 2 * 60 * 60 * 1000
+        })
+      )
+      vi.mocked(utils.latestMiseVersion).mockResolvedValue('v2025.2.0')
+
+      const result = await resolveMiseVersion()
+
+      expect(result).toBe('2025.2.0')
+    })
+
+    it('should pick the newest release matching a wildcard', async () => {
+      mockReleases([
+        release('v2025.10.0'),
+        release('v2025.9.2'),
+        release('v2024.12.5')
+      ])
+
+      expect(await resolveMiseVersion('2024.x')).toBe('2024.12.5')
+      expect(await resolveMiseVersion('2025.9.*')).toBe('2025.9.2')
+      expect(await resolveMiseVersion('2025')).toBe('2025.10.0')
+    })
+
+    it('should pick the newest release matching every comparison', async () => {
+      mockReleases([
+        release('v2025.10.0'),
+        release('v2025.9.2'),
+        release('v2025.8.0')
+      ])
+
+      expect(await resolveMiseVersion('>=2025.9')).toBe('2025.10.0')
+      expect(await resolveMiseVersion('>=2025.9 <2025.10')).toBe('2025.9.2')
+      expect(await resolveMiseVersion('<2025.9, >2025.1')).toBe('2025.8.0')
+    })
+
+    it('should skip prereleases', async () => {
+      mockReleases([release('v2025.11.0', true), release('v2025.10.0')])
+
+      expect(await resolveMiseVersion('>=2025.10')).toBe('2025.10.0')
+    })
+
+    it('should search older pages of releases', async () => {
+      mockReleases([release('v2025.1.0')], [release('v2023.12.40')])
+
+      const result = await resolveMiseVersion('2023.x')
+
+      expect(result).toBe('2023.12.40')
+      expect(utils.fetchText).toHaveBeenCalledWith(
+        'https://api.github.com/repos/jdx/mise/releases?per_page=100&page=2',
+        { accept: 'application/vnd.github+json' }
+      )
+    })
+
+    it('should authenticate with the github_token input', async () => {
+      mockInputs({ github_token: 'ghs_token' })
+      mockReleases([release('v2025.1.0')])
+
+      await resolveMiseVersion('2025.x')
+
+      expect(utils.fetchText).toHaveBeenCalledWith(expect.any(String), {
+        accept: 'application/vnd.github+json',
+        authorization: 'Bearer ghs_token'
+      })
+    })
+
+    it('should list releases from mise_releases_url without the github_token', async () => {
+      mockInputs({
+        github_token: 'ghs_token',
+        mise_releases_url: 'https://mirror.example.com/mise/releases?mirror=1'
+      })
+      mockReleases([release('v2025.1.0')])
+
+      await resolveMiseVersion('2025.x')
+
+      expect(utils.fetchText).toHaveBeenCalledWith(
+        'https://mirror.example.com/mise/releases?mirror=1&per_page=100&page=1',
+        { accept: 'application/vnd.github+json' }
+      )
+    })
+
+    it('should fail when no release matches', async () => {
+      mockReleases([release('v2025.1.0')])
+
+      await expect(resolveMiseVersion('2022.x')).rejects.toThrow(
+        'No mise release matches version 2022.x'
+      )
+    })
+
+    it('should fail on invalid constraints', async () => {
+      await expect(resolveMiseVersion('>=2025.x')).rejects.toThrow(
+        'Invalid mise version constraint: >=2025.x'
+      )
+      await expect(resolveMiseVersion('stable')).rejects.toThrow(
+        'Invalid mise version constraint: stable'
+      )
+    })
+  })
+
+  describe('miseVersionSatisfies', () => {
+    it('should accept any version when none is given', async () => {
+      expect(await miseVersionSatisfies('2024.1.0')).toBe(true)
+    })
+
+    it('should match pinned versions exactly', async () => {
+      expect(await miseVersionSatisfies('2025.1.0', 'v2025.1.0')).toBe(true)
+      expect(await miseVersionSatisfies('2025.1.1', '2025.1.0')).toBe(false)
+    })
+
+    it('should match constraints', async () => {
+      expect(await miseVersionSatisfies('2025.9.3', '>=2025.9')).toBe(true)
+      expect(await miseVersionSatisfies('2025.9.3', '2024.x')).toBe(false)
+      expect(utils.fetchText).not.toHaveBeenCalled()
+    })
+
+    it('should compare against the latest release', async () => {
+      vi.mocked(fs.promises.readFile).mockRejectedValue(new Error('ENOENT'))
+      vi.mocked(utils.latestMiseVersion).mockResolvedValue('v2025.2.0')
+
+      expect(await miseVersionSatisfies('2025.1.0', 'latest')).toBe(false)
+      expect(await miseVersionSatisfies('2025.2.0', 'latest')).toBe(true)
+    })
+  })
+
+  describe('readVersionFile', () => {
+    it('should return nothing without a version_file', async () => {
+      expect(await readVersionFile()).toBeUndefined()
+      expect(fs.promises.readFile).not.toHaveBeenCalled()
+    })
+
+    it('should read min_version from mise.toml as a constraint', async () => {
+      mockInputs({ version_file: 'mise.toml' })
+      vi.mocked(fs.promises.readFile).mockResolvedValue(
+        'min_version = "2025.1.0"\n\n[tools]\nnode = "22"\n'
+      )
+
+      const result = await readVersionFile()
+
+      expect(result).toBe('>=2025.1.0')
+      expect(fs.promises.readFile).toHaveBeenCalledWith(
+        '/repo/mise.toml',
+        'utf8'
+      )
+    })
+
+    it('should read the hard minimum of a min_version table', async () => {
+      mockInputs({ version_file: 'mise.toml' })
+      vi.mocked(fs.promises.readFile).mockResolvedValue(
+        'min_version = { hard = "2025.1.0", soft = "2025.9.0" }\n'
+      )
+
+      expect(await readVersionFile()).toBe('>=2025.1.0')
+    })
+
+    it('should read the version from a .mise-version file', async () => {
+      mockInputs({ version_file: '.mise-version' })
+      vi.mocked(fs.promises.readFile).mockResolvedValue(
+        '# pinned for CI\n2025.1.0\n'
+      )
+
+      expect(await readVersionFile()).toBe('2025.1.0')
+    })
+
+    it('should fail when mise.toml has no min_version', async () => {
+      mockInputs({ version_file: 'mise.toml' })
+      vi.mocked(fs.promises.readFile).mockResolvedValue(
+        '[tools]\nnode = "22"\n'
+      )
+
+      await expect(readVersionFile()).rejects.toThrow(
+        'No mise version found in version_file mise.toml'
+      )
+    })
+
+    it('should fail when the file cannot be read', async () => {
+      mockInputs({ version_file: '.mise-version' })
+      vi.mocked(fs.promises.readFile).mockRejectedValue(new Error('ENOENT'))
+
+      await expect(readVersionFile()).rejects.toThrow(
+        'Failed to read version_file .mise-version: Error: ENOENT'
+      )
+    })
+  })
+})